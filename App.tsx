@@ -1,46 +1,323 @@
-import React, { Suspense, useState } from 'react';
+import React, { Suspense, useEffect, useRef, useState } from 'react';
 import { Scene } from './components/Scene';
+import { CameraControllerHandle } from './components/CameraController';
+import { CaptureHandle } from './components/CaptureBridge';
 import { UIOverlay } from './components/UIOverlay';
-import { Loader } from 'lucide-react';
+import { LoadingScreen } from './components/LoadingScreen';
+import { SceneErrorBoundary } from './components/SceneErrorBoundary';
+import { DEFAULT_SEED, randomSeed } from './utils/random';
+import { GALAXY_PARAMS } from './utils/galaxy';
+import { DEFAULT_SIMULATION } from './utils/simulation';
+import { buildShareUrl, parseViewQuery } from './utils/router';
+import { useRoute } from './hooks/useRoute';
+import { useReducedMotion } from './hooks/useReducedMotion';
+import { useMediaQuery } from './hooks/useMediaQuery';
+import { useTranslation } from './hooks/useTranslation';
+import { useAudio } from './hooks/useAudio';
+import { STAR_SYSTEMS, getStarSystem } from './data/starSystems';
+import { getTour } from './data/tours';
+import { loadQualitySetting, saveQualitySetting, stepQuality } from './utils/quality';
+import { loadEffectToggles, saveEffectToggles } from './utils/effects';
+import { COARSE_POINTER_QUERY, COMPACT_LAYOUT_QUERY, DETAIL_SHEET_HEIGHT, orientationSupported, requestOrientationAccess } from './utils/touch';
+import { downloadBlob } from './utils/capture';
+import { playCue } from './utils/audio';
+import { PerformanceStats, PostEffect, QualitySetting, QualityTier, StillCaptureRequest, TourPlayback, VideoCaptureRequest } from './types';
+
+// View params from the URL the page was opened with
+const initialView = parseViewQuery(window.location.search);
 
 const App: React.FC = () => {
-  const [exploreMode, setExploreMode] = useState(false);
+  const [route, navigate] = useRoute();
+  const [galaxyParams, setGalaxyParams] = useState(GALAXY_PARAMS);
+  const [seed, setSeed] = useState(initialView.seed ?? DEFAULT_SEED);
+  const [tour, setTour] = useState<TourPlayback | null>(null);
+  const [keyboardFocusId, setKeyboardFocusId] = useState<string | null>(null);
+  const [simulation, setSimulation] = useState(DEFAULT_SIMULATION);
+  const simulationTime = useRef(0);
+  const cameraRef = useRef<CameraControllerHandle>(null);
+  const fadeRef = useRef<HTMLDivElement>(null);
+  const captureRef = useRef<CaptureHandle>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [capturing, setCapturing] = useState(false);
+  const [reducedMotion, setReducedMotion] = useReducedMotion();
+  const statsRef = useRef<PerformanceStats | null>(null);
+  const [qualitySetting, setQualitySetting] = useState<QualitySetting>(loadQualitySetting);
+  const [autoTier, setAutoTier] = useState<QualityTier>('high');
+  const [showStats, setShowStats] = useState(() => new URLSearchParams(window.location.search).has('stats'));
+  const quality = qualitySetting === 'auto' ? autoTier : qualitySetting;
+  const [effects, setEffects] = useState(loadEffectToggles);
+  const touch = useMediaQuery(COARSE_POINTER_QUERY);
+  const compact = useMediaQuery(COMPACT_LAYOUT_QUERY);
+  // Tilt parallax needs a permission prompt on some browsers, so it is opt-in and not remembered
+  const [gyroscope, setGyroscope] = useState(false);
+  // Systems and planets matched by the latest WisdomSQL console query
+  const [highlights, setHighlights] = useState<string[]>([]);
+  const [muted, toggleMuted] = useAudio();
+  const { locale, t } = useTranslation();
+
+  // A shared camera pose only applies on load (or the first flight into explore), so the first
+  // navigation consumes it and later returns to explore fly to the usual pose
+  const [sharedPose, setSharedPose] = useState(initialView.camera);
+  const initialRoute = useRef(route);
+
+  useEffect(() => {
+    if (route !== initialRoute.current) setSharedPose(null);
+  }, [route]);
+
+  const exploreMode = route.name === 'explore';
+  const selectedSystem = route.name === 'explore' ? getStarSystem(route.systemId) : null;
+  const selectedId = selectedSystem?.id ?? null;
+
+  // The document language drives screen reader voices and the :lang() font rules in index.html
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = t('app.title');
+  }, [locale, t]);
+
+  // Unknown system ids fall back to free exploration
+  useEffect(() => {
+    if (route.name === 'explore' && route.systemId && !selectedSystem) {
+      navigate({ name: 'explore', systemId: null }, { replace: true });
+    }
+  }, [route, selectedSystem, navigate]);
+
+  // Keep the seed in the address bar so a refresh or a copied URL shows the same galaxy
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    url.searchParams.set('seed', String(seed));
+    window.history.replaceState(null, '', url);
+  }, [seed]);
 
   const handleExplore = () => {
-    setExploreMode(true);
+    playCue('explore');
+    navigate({ name: 'explore', systemId: null });
   };
 
   const handleReturn = () => {
-    setExploreMode(false);
+    playCue('return');
+    setTour(null);
+    navigate({ name: 'hero' });
   }
 
+  const handleSelect = (id: string | null) => {
+    setTour(null);
+    navigate({ name: 'explore', systemId: id });
+  };
+
+  // Esc steps back: it ends a tour or deselects the focused system, then returns to orbit
+  useEffect(() => {
+    if (!exploreMode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (selectedId || tour) {
+        setTour(null);
+        navigate({ name: 'explore', systemId: null });
+      } else {
+        playCue('return');
+        navigate({ name: 'hero' });
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [exploreMode, selectedId, tour, navigate]);
+
+  // Leaving explore mode (e.g. browser back) ends the tour and drops keyboard focus
+  useEffect(() => {
+    if (exploreMode) return;
+    setTour(null);
+    setKeyboardFocusId(null);
+  }, [exploreMode]);
+
+  // Tabbing into the scene focuses the first system, or the last one when tabbing backwards
+  const handleSceneFocus = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!exploreMode || tour || !e.currentTarget.matches(':focus-visible')) return;
+    const fromAfter = e.relatedTarget instanceof Node
+      && (e.currentTarget.compareDocumentPosition(e.relatedTarget) & Node.DOCUMENT_POSITION_FOLLOWING) !== 0;
+    setKeyboardFocusId(STAR_SYSTEMS[fromAfter ? STAR_SYSTEMS.length - 1 : 0].id);
+  };
+
+  // Tab and the arrow keys cycle through systems, Enter or Space selects the focused one
+  const handleSceneKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!exploreMode || tour) return;
+
+    if ((e.key === 'Enter' || e.key === ' ') && keyboardFocusId) {
+      e.preventDefault();
+      handleSelect(keyboardFocusId);
+      return;
+    }
+
+    const forward = e.key === 'ArrowRight' || e.key === 'ArrowDown' || (e.key === 'Tab' && !e.shiftKey);
+    const backward = e.key === 'ArrowLeft' || e.key === 'ArrowUp' || (e.key === 'Tab' && e.shiftKey);
+    if (!forward && !backward) return;
+
+    const ids = STAR_SYSTEMS.map((system) => system.id);
+    const current = keyboardFocusId ? ids.indexOf(keyboardFocusId) : forward ? -1 : ids.length;
+    const next = current + (forward ? 1 : -1);
+
+    // Tabbing past either end leaves the scene for the surrounding controls
+    if (e.key === 'Tab' && (next < 0 || next >= ids.length)) {
+      setKeyboardFocusId(null);
+      return;
+    }
+    e.preventDefault();
+    setKeyboardFocusId(ids[(next + ids.length) % ids.length]);
+  };
+
+  const handleStartTour = (tourId: string) => {
+    navigate({ name: 'explore', systemId: null });
+    setTour({ tourId, index: 0, paused: false });
+  };
+
+  const goToTourStep = (step: (index: number) => number) => {
+    setTour((current) => {
+      if (!current) return null;
+      const index = step(current.index);
+      const length = getTour(current.tourId)?.waypoints.length ?? 0;
+      if (index >= length) return null;
+      return { ...current, index: Math.max(0, index) };
+    });
+  };
+
+  const handleReseed = () => {
+    setSeed(randomSeed());
+  };
+
+  const handleQualityChange = (setting: QualitySetting) => {
+    setQualitySetting(setting);
+    saveQualitySetting(setting);
+  };
+
+  const handleToggleEffect = (effect: PostEffect) => {
+    const next = { ...effects, [effect]: !effects[effect] };
+    setEffects(next);
+    saveEffectToggles(next);
+  };
+
+  const handleToggleGyroscope = async () => {
+    setGyroscope(!gyroscope && await requestOrientationAccess());
+  };
+
+  // Adaptive quality is paused while capturing, so slow stepped frames don't lower it mid-clip
+  const runCapture = async (capture: (handle: CaptureHandle) => Promise<Blob>, filename: string) => {
+    if (!captureRef.current) return;
+    setCapturing(true);
+    try {
+      downloadBlob(await capture(captureRef.current), filename);
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const handleCaptureStill = ({ width, includeUI }: StillCaptureRequest) =>
+    runCapture(
+      (handle) => handle.capturePng({ width, overlay: includeUI ? overlayRef.current : null }),
+      `cosmos-${seed}-${width}.png`
+    );
+
+  const handleRecordVideo = ({ width, duration, fps, includeUI }: VideoCaptureRequest, onProgress: (progress: number) => void) =>
+    runCapture(
+      (handle) => handle.recordVideo({ width, duration, fps, overlay: includeUI ? overlayRef.current : null, onProgress }),
+      `cosmos-${seed}-${duration}s.webm`
+    );
+
+  const handleShare = async () => {
+    const url = buildShareUrl(route, seed, cameraRef.current?.getPose() ?? null);
+    await navigator.clipboard.writeText(url);
+  };
+
   return (
     <div className="relative w-full h-screen bg-black overflow-hidden">
       {/* 3D Canvas Container */}
-      <div className={`absolute inset-0 transition-transform duration-1000 ease-in-out ${exploreMode ? 'scale-110' : 'scale-100'}`}>
-        <Suspense fallback={
-          <div className="flex items-center justify-center w-full h-full text-white">
-            <Loader className="w-8 h-8 animate-spin text-accent-400" />
-            <span className="ml-2 text-sm font-light tracking-widest uppercase">Loading Universe...</span>
-          </div>
-        }>
-          <Scene active={exploreMode} />
-        </Suspense>
+      <div
+        className={`absolute inset-0 outline-none transition-transform duration-1000 ease-in-out ${exploreMode && !reducedMotion ? 'scale-110' : 'scale-100'}`}
+        role="application"
+        aria-label={t('app.sceneLabel')}
+        tabIndex={exploreMode ? 0 : -1}
+        onFocus={handleSceneFocus}
+        onBlur={() => setKeyboardFocusId(null)}
+        onKeyDown={handleSceneKeyDown}
+      >
+        <SceneErrorBoundary>
+          <Suspense fallback={<LoadingScreen />}>
+            <Scene
+              active={exploreMode}
+              seed={seed}
+              galaxy={galaxyParams}
+              selectedId={selectedId}
+              onSelect={handleSelect}
+              keyboardFocusId={keyboardFocusId}
+              highlights={highlights}
+              initialPose={sharedPose}
+              cameraRef={cameraRef}
+              tour={tour}
+              onTourAdvance={() => goToTourStep((index) => index + 1)}
+              simulation={simulation}
+              time={simulationTime}
+              quality={quality}
+              effects={effects}
+              onQualityStep={qualitySetting === 'auto' && !capturing ? (direction) => setAutoTier((tier) => stepQuality(tier, direction)) : undefined}
+              statsRef={statsRef}
+              reducedMotion={reducedMotion}
+              fadeRef={fadeRef}
+              touch={touch}
+              gyroscope={gyroscope}
+              bottomInset={compact && selectedSystem ? DETAIL_SHEET_HEIGHT : 0}
+              captureRef={captureRef}
+            />
+          </Suspense>
+        </SceneErrorBoundary>
       </div>
 
+      {/* Cross-fade used instead of camera flights in reduced-motion mode */}
+      <div ref={fadeRef} className="absolute inset-0 pointer-events-none bg-black opacity-0"></div>
+
       {/* HTML UI Overlay */}
-      <div className="absolute inset-0 pointer-events-none">
+      <div ref={overlayRef} className="absolute inset-0 pointer-events-none">
         <UIOverlay 
           onExplore={handleExplore} 
           onReturn={handleReturn}
           isExploring={exploreMode} 
+          seed={seed}
+          onReseed={handleReseed}
+          onShare={handleShare}
+          galaxyParams={galaxyParams}
+          onGalaxyParamsChange={setGalaxyParams}
+          selectedSystem={selectedSystem}
+          keyboardFocusSystem={getStarSystem(keyboardFocusId)}
+          onDeselect={() => handleSelect(null)}
+          onHighlightObjects={setHighlights}
+          onSelectSystem={handleSelect}
+          getCameraPose={() => cameraRef.current?.getPose() ?? null}
+          onNavigate={(pose) => cameraRef.current?.flyTo(pose)}
+          tour={tour}
+          onStartTour={handleStartTour}
+          onTourTogglePause={() => setTour((current) => current && { ...current, paused: !current.paused })}
+          onTourPrevious={() => goToTourStep((index) => index - 1)}
+          onTourNext={() => goToTourStep((index) => index + 1)}
+          onTourStop={() => setTour(null)}
+          simulation={simulation}
+          onSimulationChange={setSimulation}
+          simulationTime={simulationTime}
+          statsRef={statsRef}
+          quality={quality}
+          qualitySetting={qualitySetting}
+          onQualityChange={handleQualityChange}
+          showStats={showStats}
+          onToggleStats={() => setShowStats(!showStats)}
+          effects={effects}
+          onToggleEffect={handleToggleEffect}
+          reducedMotion={reducedMotion}
+          onToggleReducedMotion={() => setReducedMotion(!reducedMotion)}
+          gyroscope={gyroscope}
+          muted={muted}
+          onToggleMuted={toggleMuted}
+          onToggleGyroscope={touch && orientationSupported() ? handleToggleGyroscope : undefined}
+          onCaptureStill={handleCaptureStill}
+          onRecordVideo={handleRecordVideo}
         />
       </div>
-      
-      {/* Vignette Effect */}
-      <div className="absolute inset-0 pointer-events-none bg-radial-gradient from-transparent to-black opacity-60"></div>
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
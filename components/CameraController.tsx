@@ -0,0 +1,391 @@
+import React, { useRef, useMemo, useEffect, useCallback, useImperativeHandle } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import * as THREE from 'three';
+import { CameraPose, EasingName, TourPlayback, TourShot, Vec3Tuple } from '../types';
+import { getStarSystem } from '../data/starSystems';
+import { getTour } from '../data/tours';
+import { EASINGS } from '../utils/easing';
+import { CROSSFADE_DURATION } from '../utils/motion';
+import { useDeviceTilt } from '../hooks/useDeviceTilt';
+import { starSystemObjectName } from './StarSystem';
+
+/**
+ * Camera states:
+ *   hero-orbit    non-interactive, drifts with the mouse (or device tilt) behind the hero screen
+ *   free-explore  the user owns the camera through OrbitControls
+ *   focusing      orbit controls centered on a star system, following it along its arm
+ *   touring       the playing tour flies the camera from waypoint to waypoint
+ *
+ * Entering a state starts one programmatic flight. Once it lands, interactive states hand the
+ * camera to OrbitControls and nothing else moves it until the next transition or flyTo call.
+ * In reduced-motion mode a flight is a cut instead: the screen fades out, the camera jumps, and it fades back in.
+ * On touch screens one finger orbits, pinching zooms within the distance limits and twisting two fingers turns the view.
+ */
+export type CameraMode = 'hero-orbit' | 'free-explore' | 'focusing' | 'touring';
+
+export type FlyToTarget = CameraPose | { systemId: string; offset?: Vec3Tuple };
+
+export interface FlyToOptions {
+  duration?: number;
+  easing?: EasingName;
+}
+
+export interface CameraControllerHandle {
+  // Resolves true when the camera lands, false when another flight interrupts it
+  flyTo: (target: FlyToTarget, options?: FlyToOptions) => Promise<boolean>;
+  getPose: () => CameraPose;
+  getMode: () => CameraMode;
+}
+
+interface CameraControllerProps {
+  mode: CameraMode;
+  systemId: string | null;
+  tour: TourPlayback | null;
+  homePose: CameraPose;
+  // Shared link pose: the camera starts there instead of flying in
+  initialPose?: CameraPose | null;
+  controllerRef?: React.Ref<CameraControllerHandle>;
+  onTourAdvance: () => void;
+  reducedMotion: boolean;
+  // Full-screen overlay faded to black during reduced-motion cuts
+  fadeRef?: React.RefObject<HTMLDivElement | null>;
+  // Hero parallax follows device tilt instead of the pointer; motion sensor access is granted beforehand
+  gyroscope: boolean;
+}
+
+export const HERO_POSE: CameraPose = { position: [0, 6, 12], target: [0, 0, 0] };
+export const EXPLORE_POSE: CameraPose = { position: [0, 1.5, 3.5], target: [0, 0, 0] };
+
+const MODE_ENTRY: Record<CameraMode, { duration: number; easing: EasingName; interactive: boolean }> = {
+  'hero-orbit': { duration: 2.5, easing: 'easeInOutCubic', interactive: false },
+  'free-explore': { duration: 2, easing: 'easeInOutCubic', interactive: true },
+  'focusing': { duration: 1.8, easing: 'easeInOutCubic', interactive: true },
+  'touring': { duration: 0, easing: 'linear', interactive: false },
+};
+
+// Writes the destination position and look target for the current frame
+type Destination = (position: THREE.Vector3, target: THREE.Vector3) => void;
+
+interface Flight {
+  fromPosition: THREE.Vector3;
+  fromTarget: THREE.Vector3;
+  destination: Destination;
+  // Optional next destination, bending the path into a spline that leaves heading towards it
+  toward?: Destination;
+  duration: number;
+  easing: EasingName;
+  elapsed: number;
+  pausable: boolean;
+  cut: boolean;
+  settle: (landed: boolean) => void;
+}
+
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+
+// Angle of the line between two touches, for the two-finger twist
+const touchAngle = (touches: TouchList) =>
+  Math.atan2(touches[1].clientY - touches[0].clientY, touches[1].clientX - touches[0].clientX);
+
+const toPose = (position: THREE.Vector3, target: THREE.Vector3): CameraPose => ({
+  position: position.toArray() as Vec3Tuple,
+  target: target.toArray() as Vec3Tuple,
+});
+
+export const CameraController: React.FC<CameraControllerProps> = ({
+  mode,
+  systemId,
+  tour,
+  homePose,
+  initialPose,
+  controllerRef,
+  onTourAdvance,
+  reducedMotion,
+  fadeRef,
+  gyroscope,
+}) => {
+  const { camera, scene, pointer, gl } = useThree();
+  const tilt = useDeviceTilt(gyroscope);
+  const controlsRef = useRef<OrbitControlsImpl>(null!);
+  const flight = useRef<Flight | null>(null);
+  const modeRef = useRef<CameraMode>(mode);
+  const holdElapsed = useRef(0);
+  const followed = useRef<THREE.Vector3 | null>(null);
+  const reducedMotionRef = useRef(reducedMotion);
+  reducedMotionRef.current = reducedMotion;
+
+  const curve = useMemo(
+    () => new THREE.CatmullRomCurve3([new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()], false, 'centripetal'),
+    []
+  );
+  const scratch = useMemo(() => ({
+    position: new THREE.Vector3(),
+    target: new THREE.Vector3(),
+    towardTarget: new THREE.Vector3(),
+  }), []);
+
+  const tourDefinition = tour ? getTour(tour.tourId) : null;
+  const waypoint = tourDefinition && tour ? tourDefinition.waypoints[tour.index] : null;
+
+  const systemDestination = useCallback((id: string, offset?: Vec3Tuple): Destination => (position, target) => {
+    const object = scene.getObjectByName(starSystemObjectName(id));
+    if (object) {
+      object.getWorldPosition(target);
+    } else {
+      target.set(0, 0, 0);
+    }
+    position.fromArray(offset ?? getStarSystem(id)?.selectionOffset ?? [0, 0.5, 2]).add(target);
+  }, [scene]);
+
+  const poseDestination = (pose: CameraPose): Destination => (position, target) => {
+    position.fromArray(pose.position);
+    target.fromArray(pose.target);
+  };
+
+  const shotDestination = useCallback((shot: TourShot): Destination =>
+    shot.kind === 'point'
+      ? poseDestination({ position: shot.position, target: shot.lookAt })
+      : systemDestination(shot.systemId, shot.offset),
+  [systemDestination]);
+
+  const setInteractive = (enabled: boolean) => {
+    if (controlsRef.current) controlsRef.current.enabled = enabled;
+  };
+
+  const setFade = (amount: number) => {
+    if (fadeRef?.current) fadeRef.current.style.opacity = String(amount);
+  };
+
+  // Called when a flight lands: interactive states take the camera back
+  const land = useCallback(() => {
+    const current = modeRef.current;
+    if (current === 'focusing' && systemId) {
+      followed.current = new THREE.Vector3();
+      systemDestination(systemId)(scratch.position, followed.current);
+    } else {
+      followed.current = null;
+    }
+    holdElapsed.current = 0;
+    setInteractive(MODE_ENTRY[current].interactive);
+  }, [systemId, systemDestination, scratch]);
+
+  const startFlight = useCallback((
+    destination: Destination,
+    options: FlyToOptions & { toward?: Destination; pausable?: boolean } = {}
+  ) => {
+    flight.current?.settle(false);
+    setInteractive(false);
+    const cut = reducedMotionRef.current;
+    if (!cut) setFade(0);
+
+    return new Promise<boolean>((resolve) => {
+      flight.current = {
+        fromPosition: camera.position.clone(),
+        fromTarget: controlsRef.current ? controlsRef.current.target.clone() : new THREE.Vector3(),
+        destination,
+        toward: options.toward,
+        duration: cut ? CROSSFADE_DURATION : options.duration ?? 1.5,
+        easing: options.easing ?? 'easeInOutCubic',
+        elapsed: 0,
+        pausable: options.pausable ?? false,
+        cut,
+        settle: resolve,
+      };
+    });
+  }, [camera]);
+
+  // A shared pose is applied instantly on load
+  useEffect(() => {
+    if (!initialPose || mode !== 'free-explore') return;
+    camera.position.fromArray(initialPose.position);
+    controlsRef.current?.target.fromArray(initialPose.target);
+    camera.lookAt(scratch.target.fromArray(initialPose.target));
+  }, []); // Only on mount
+
+  // Two-finger twist turns the camera around its target; OrbitControls handles the pinch
+  useEffect(() => {
+    const element = gl.domElement;
+    let previousAngle: number | null = null;
+
+    const handleTouch = (e: TouchEvent) => {
+      const controls = controlsRef.current;
+      if (e.touches.length !== 2 || !controls?.enabled) {
+        previousAngle = null;
+        return;
+      }
+      const angle = touchAngle(e.touches);
+      if (previousAngle !== null) {
+        // Unwrapped so crossing ±π does not spin the camera all the way round
+        const twist = Math.atan2(Math.sin(angle - previousAngle), Math.cos(angle - previousAngle));
+        scratch.position.subVectors(camera.position, controls.target).applyAxisAngle(Y_AXIS, -twist);
+        camera.position.addVectors(controls.target, scratch.position);
+      }
+      previousAngle = angle;
+    };
+
+    element.addEventListener('touchstart', handleTouch, { passive: true });
+    element.addEventListener('touchmove', handleTouch, { passive: true });
+    element.addEventListener('touchend', handleTouch, { passive: true });
+    return () => {
+      element.removeEventListener('touchstart', handleTouch);
+      element.removeEventListener('touchmove', handleTouch);
+      element.removeEventListener('touchend', handleTouch);
+    };
+  }, [gl, camera, scratch]);
+
+  // Transitions: each state change starts exactly one programmatic flight
+  const transitionKey = mode === 'focusing' ? `focusing:${systemId}`
+    : mode === 'touring' ? `touring:${tour?.tourId}:${tour?.index}`
+    : mode;
+  const isFirstTransition = useRef(true);
+
+  useEffect(() => {
+    const first = isFirstTransition.current;
+    isFirstTransition.current = false;
+    modeRef.current = mode;
+
+    if (first && (mode === 'hero-orbit' || (mode === 'free-explore' && initialPose))) {
+      // Already in place: the canvas starts at the hero pose, or the shared pose was just applied
+      land();
+      return;
+    }
+
+    const entry = MODE_ENTRY[mode];
+    if (mode === 'touring') {
+      if (!waypoint || !tourDefinition || !tour) return;
+      const next = tourDefinition.waypoints[tour.index + 1];
+      startFlight(shotDestination(waypoint.shot), {
+        duration: waypoint.duration,
+        easing: waypoint.easing,
+        toward: next && shotDestination(next.shot),
+        pausable: true,
+      }).then((landed) => landed && land());
+    } else if (mode === 'focusing' && systemId) {
+      startFlight(systemDestination(systemId), entry).then((landed) => landed && land());
+    } else {
+      startFlight(poseDestination(mode === 'hero-orbit' ? HERO_POSE : homePose), entry).then((landed) => landed && land());
+    }
+  }, [transitionKey]);
+
+  useImperativeHandle(controllerRef, () => ({
+    flyTo: (target, options = {}) => {
+      const destination = 'systemId' in target
+        ? systemDestination(target.systemId, target.offset)
+        : poseDestination(target);
+      return startFlight(destination, options).then((landed) => {
+        if (landed) land();
+        return landed;
+      });
+    },
+    getPose: () => toPose(camera.position, controlsRef.current?.target ?? scratch.target.set(0, 0, 0)),
+    getMode: () => modeRef.current,
+  }), [camera, startFlight, land, systemDestination, scratch]);
+
+  useFrame((state, delta) => {
+    const controls = controlsRef.current;
+    if (!controls) return;
+
+    // 1. Programmatic flight
+    const active = flight.current;
+    if (active) {
+      if (!(active.pausable && tour?.paused)) {
+        active.elapsed += delta;
+      }
+      const progress = active.duration > 0 ? Math.min(active.elapsed / active.duration, 1) : 1;
+      const eased = EASINGS[active.easing](progress);
+
+      active.destination(scratch.position, scratch.target);
+      if (active.cut) {
+        // Jump while the screen is dark: fade out over the first half, back in over the second
+        if (progress >= 0.5) {
+          camera.position.copy(scratch.position);
+          controls.target.copy(scratch.target);
+        }
+        setFade(1 - Math.abs(progress * 2 - 1));
+      } else if (active.toward) {
+        const [start, through, toward] = curve.points;
+        start.copy(active.fromPosition);
+        through.copy(scratch.position);
+        active.toward(toward, scratch.towardTarget);
+        // The leg to the destination is the first half of the three-point curve
+        curve.getPoint(eased * 0.5, camera.position);
+      } else {
+        camera.position.lerpVectors(active.fromPosition, scratch.position, eased);
+      }
+      if (!active.cut) {
+        controls.target.lerpVectors(active.fromTarget, scratch.target, eased);
+      }
+      camera.lookAt(controls.target);
+
+      if (progress >= 1) {
+        flight.current = null;
+        active.settle(true);
+      }
+      return;
+    }
+
+    // 2. Steady state
+    switch (modeRef.current) {
+      case 'hero-orbit':
+        // Nobody else drives the camera here, so it can drift with the mouse or tilt, unless motion is reduced
+        if (reducedMotionRef.current) {
+          scratch.position.fromArray(HERO_POSE.position);
+        } else {
+          const parallax = tilt.current ?? pointer;
+          scratch.position.set(parallax.x * 5, parallax.y * 2 + 6, 12);
+        }
+        camera.position.lerp(scratch.position, delta * 0.8);
+        controls.target.set(0, 0, 0);
+        camera.lookAt(controls.target);
+        break;
+
+      case 'focusing':
+        // Carry the camera along with the system, keeping whatever view the user orbited to
+        if (systemId && followed.current) {
+          systemDestination(systemId)(scratch.position, scratch.target);
+          const moved = scratch.target.sub(followed.current);
+          followed.current.add(moved);
+          camera.position.add(moved);
+          controls.target.add(moved);
+        }
+        break;
+
+      case 'touring':
+        // Hold on the waypoint, tracking it if it moves
+        if (waypoint) {
+          shotDestination(waypoint.shot)(camera.position, controls.target);
+          camera.lookAt(controls.target);
+          if (!tour?.paused) {
+            holdElapsed.current += delta;
+          }
+          if (holdElapsed.current >= waypoint.hold) {
+            holdElapsed.current = -Infinity;
+            onTourAdvance();
+          }
+        }
+        break;
+
+      case 'free-explore':
+        // The user owns the camera
+        break;
+    }
+  });
+
+  return (
+    <OrbitControls
+      ref={controlsRef}
+      enablePan={false}
+      enableZoom={true}
+      minDistance={1}
+      maxDistance={20}
+      maxPolarAngle={Math.PI * 0.8}
+      minPolarAngle={Math.PI * 0.2}
+      enableDamping
+      dampingFactor={0.05}
+      rotateSpeed={0.5}
+      // Pan is off, so two fingers only pinch-zoom here
+      touches={{ ONE: THREE.TOUCH.ROTATE, TWO: THREE.TOUCH.DOLLY_PAN }}
+    />
+  );
+};
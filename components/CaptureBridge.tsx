@@ -0,0 +1,194 @@
+import React, { useImperativeHandle } from 'react';
+import { RootState, useThree } from '@react-three/fiber';
+import { collectStyles, drawElementLayer } from '../utils/capture';
+import { WEBM_CODECS, createWebmWriter } from '../utils/webm';
+import { LocalizedError } from '../utils/errors';
+
+/**
+ * Stills and clips of the canvas, rendered at any size above the screen's.
+ * A still re-renders one frame at a higher pixel ratio; a clip stops the render loop and steps the
+ * R3F clock by exactly 1/fps per frame, so every animation advances evenly however slow the device is.
+ * DOM layers (Html labels, optionally the UI) are rasterized and composited over the WebGL image.
+ */
+export interface PngCaptureOptions {
+  width: number;
+  // UI overlay to composite over the scene, if any
+  overlay?: HTMLElement | null;
+}
+
+export interface VideoCaptureOptions extends PngCaptureOptions {
+  duration: number;   // Seconds
+  fps: number;
+  onProgress?: (progress: number) => void;
+}
+
+export interface CaptureHandle {
+  capturePng: (options: PngCaptureOptions) => Promise<Blob>;
+  recordVideo: (options: VideoCaptureOptions) => Promise<Blob>;
+}
+
+// Seconds between keyframes in recorded clips
+const KEYFRAME_INTERVAL = 2;
+// Encoded frames allowed to queue before rendering waits for the encoder
+const MAX_ENCODE_QUEUE = 4;
+
+const nextTick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const toBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the capture'))), 'image/png');
+  });
+
+/**
+ * Output canvas covering the window at `width` pixels; video encoders need even dimensions
+ */
+const createOutput = (width: number, even = false) => {
+  const scale = width / window.innerWidth;
+  const round = (value: number) => (even ? Math.round(value / 2) * 2 : Math.round(value));
+  const canvas = document.createElement('canvas');
+  canvas.width = round(width);
+  canvas.height = round(window.innerHeight * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new LocalizedError('capture.noCanvas');
+  return { canvas, context, scale };
+};
+
+// Pixel ratio that renders the canvas at `scale` times its on-screen size, within GPU limits
+const renderRatio = ({ gl, size }: RootState, scale: number) => {
+  const rect = gl.domElement.getBoundingClientRect();
+  const ratio = (scale * rect.width) / size.width;
+  return Math.min(ratio, gl.capabilities.maxTextureSize / Math.max(size.width, size.height));
+};
+
+// Must run in the same task as the render, before the drawing buffer is presented and cleared
+const drawScene = ({ gl }: RootState, context: CanvasRenderingContext2D, scale: number) => {
+  const rect = gl.domElement.getBoundingClientRect();
+  context.fillStyle = '#000';
+  context.fillRect(0, 0, context.canvas.width, context.canvas.height);
+  context.drawImage(gl.domElement, rect.left * scale, rect.top * scale, rect.width * scale, rect.height * scale);
+};
+
+const drawDomLayers = async (
+  { gl }: RootState,
+  context: CanvasRenderingContext2D,
+  scale: number,
+  overlay: HTMLElement | null | undefined,
+  styles: string
+) => {
+  // drei's Html labels are mounted next to the canvas
+  if (gl.domElement.parentElement) await drawElementLayer(context, gl.domElement.parentElement, scale, styles);
+  if (overlay) await drawElementLayer(context, overlay, scale, styles);
+};
+
+/**
+ * Renders one frame exactly `to - from` seconds after the previous one, whatever the wall-clock time
+ */
+const stepFrame = (get: () => RootState, from: number, to: number) => {
+  // Canvas re-renders can switch the loop back on, so keep it stopped while recording
+  if (get().frameloop !== 'never') get().setFrameloop('never');
+  const state = get();
+  state.clock.elapsedTime = from;
+  state.advance(to);
+  return state;
+};
+
+const pickCodec = async (width: number, height: number, fps: number) => {
+  for (const codec of WEBM_CODECS) {
+    const config: VideoEncoderConfig = {
+      codec: codec.encoder,
+      width,
+      height,
+      framerate: fps,
+      bitrate: Math.round(width * height * fps * 0.15),
+    };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return { config, matroska: codec.matroska };
+  }
+  return null;
+};
+
+export const CaptureBridge: React.FC<{ captureRef?: React.Ref<CaptureHandle> }> = ({ captureRef }) => {
+  const get = useThree((state) => state.get);
+
+  useImperativeHandle(captureRef, () => ({
+    capturePng: async ({ width, overlay }) => {
+      const { canvas, context, scale } = createOutput(width);
+      const styles = collectStyles();
+      const state = get();
+      const previousRatio = state.gl.getPixelRatio();
+
+      try {
+        state.gl.setPixelRatio(renderRatio(state, scale));
+        state.advance(state.clock.elapsedTime);
+        drawScene(state, context, scale);
+      } finally {
+        state.gl.setPixelRatio(previousRatio);
+      }
+      await drawDomLayers(state, context, scale, overlay, styles);
+      return toBlob(canvas);
+    },
+
+    recordVideo: async ({ width, duration, fps, overlay, onProgress }) => {
+      if (typeof VideoEncoder === 'undefined') {
+        throw new LocalizedError('capture.needsWebCodecs');
+      }
+      const { canvas, context, scale } = createOutput(width, true);
+      const codec = await pickCodec(canvas.width, canvas.height, fps);
+      if (!codec) throw new LocalizedError('capture.noWebm');
+
+      const writer = createWebmWriter({ codec: codec.matroska, width: canvas.width, height: canvas.height });
+      let failure: Error | null = null;
+      const encoder = new VideoEncoder({
+        output: (chunk) => {
+          const data = new Uint8Array(chunk.byteLength);
+          chunk.copyTo(data);
+          writer.addFrame(data, chunk.timestamp / 1000, (chunk.duration ?? 1e6 / fps) / 1000, chunk.type === 'key');
+        },
+        error: (error) => {
+          failure = error;
+        },
+      });
+      encoder.configure(codec.config);
+
+      const styles = collectStyles();
+      const { gl, clock } = get();
+      const previousRatio = gl.getPixelRatio();
+      const start = clock.elapsedTime;
+      const frames = Math.round(duration * fps);
+
+      // Without auto-start the stopped clock only moves when a frame is stepped
+      clock.autoStart = false;
+      gl.setPixelRatio(renderRatio(get(), scale));
+      try {
+        for (let i = 0; i < frames; i++) {
+          if (failure) throw failure;
+          const state = stepFrame(get, start + i / fps, start + (i + 1) / fps);
+          drawScene(state, context, scale);
+          await drawDomLayers(state, context, scale, overlay, styles);
+
+          const frame = new VideoFrame(canvas, { timestamp: Math.round((i * 1e6) / fps), duration: Math.round(1e6 / fps) });
+          encoder.encode(frame, { keyFrame: i % (KEYFRAME_INTERVAL * fps) === 0 });
+          frame.close();
+          onProgress?.((i + 1) / frames);
+
+          // Let the encoder drain and the page repaint the progress
+          do {
+            await nextTick();
+          } while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE);
+        }
+        await encoder.flush();
+        if (failure) throw failure;
+      } finally {
+        if (encoder.state !== 'closed') encoder.close();
+        gl.setPixelRatio(previousRatio);
+        clock.autoStart = true;
+        get().setFrameloop('always');
+        // Restarting the loop zeroes the clock; carry on from where the clip ended
+        get().clock.elapsedTime = start + frames / fps;
+      }
+      return writer.finish();
+    },
+  }), [get]);
+
+  return null;
+};
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Camera, Image as ImageIcon, Video, X } from 'lucide-react';
+import { PNG_WIDTHS, VIDEO_DURATIONS, VIDEO_FPS, VIDEO_WIDTHS } from '../utils/capture';
+import { errorMessage } from '../utils/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+import { StillCaptureRequest, VideoCaptureRequest } from '../types';
+
+interface CapturePanelProps {
+  onCaptureStill: (request: StillCaptureRequest) => Promise<void>;
+  onRecordVideo: (request: VideoCaptureRequest, onProgress: (progress: number) => void) => Promise<void>;
+}
+
+const selectClass = 'mt-1 w-full bg-white/5 border border-white/10 rounded px-2 py-1 font-mono text-white';
+const actionButton = 'flex items-center justify-center gap-2 w-full py-2 rounded-lg border border-white/20 text-white hover:bg-white/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+/**
+ * Footer control for exporting PNG stills and WebM clips of the current view
+ */
+export const CapturePanel: React.FC<CapturePanelProps> = ({ onCaptureStill, onRecordVideo }) => {
+  const [open, setOpen] = useState(false);
+  const [stillWidth, setStillWidth] = useState(PNG_WIDTHS[1]);
+  const [videoWidth, setVideoWidth] = useState(VIDEO_WIDTHS[1]);
+  const [duration, setDuration] = useState(VIDEO_DURATIONS[0]);
+  const [fps, setFps] = useState(VIDEO_FPS[0]);
+  const [includeUI, setIncludeUI] = useState(false);
+  const [busy, setBusy] = useState<'still' | 'video' | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
+
+  const run = async (kind: 'still' | 'video', capture: () => Promise<void>) => {
+    setBusy(kind);
+    setProgress(0);
+    setError(null);
+    try {
+      await capture();
+    } catch (err) {
+      setError(errorMessage(err, t, 'capture.failed'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="relative pointer-events-auto">
+      {open && (
+        // The panel itself never appears in captures
+        <div
+          data-capture-exclude
+          className="absolute bottom-full right-0 mb-3 w-64 rounded-2xl bg-black/70 border border-white/10 backdrop-blur-md p-4 space-y-4 text-xs text-gray-300"
+        >
+          <div className="flex items-center justify-between text-white uppercase tracking-wider font-medium">
+            {t('capture.title')}
+            <button onClick={() => setOpen(false)} title={t('capture.close')} aria-label={t('capture.close')} className="text-gray-400 hover:text-white">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={includeUI} onChange={(e) => setIncludeUI(e.target.checked)} className="accent-violet-500" />
+            {t('capture.includeUI')}
+          </label>
+
+          {/* Still */}
+          <div className="space-y-2 border-t border-white/10 pt-3">
+            <label className="block">
+              {t('capture.pngWidth')}
+              <select value={stillWidth} onChange={(e) => setStillWidth(Number(e.target.value))} className={selectClass}>
+                {PNG_WIDTHS.map((width) => <option key={width} value={width}>{width}px</option>)}
+              </select>
+            </label>
+            <button
+              onClick={() => run('still', () => onCaptureStill({ width: stillWidth, includeUI }))}
+              disabled={busy !== null}
+              className={actionButton}
+            >
+              <ImageIcon className="w-4 h-4" /> {busy === 'still' ? t('capture.rendering') : t('capture.savePng')}
+            </button>
+          </div>
+
+          {/* Clip */}
+          <div className="space-y-2 border-t border-white/10 pt-3">
+            <div className="grid grid-cols-3 gap-2">
+              <label className="block">
+                {t('capture.width')}
+                <select value={videoWidth} onChange={(e) => setVideoWidth(Number(e.target.value))} className={selectClass}>
+                  {VIDEO_WIDTHS.map((width) => <option key={width} value={width}>{width}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                {t('capture.length')}
+                <select value={duration} onChange={(e) => setDuration(Number(e.target.value))} className={selectClass}>
+                  {VIDEO_DURATIONS.map((seconds) => <option key={seconds} value={seconds}>{seconds}s</option>)}
+                </select>
+              </label>
+              <label className="block">
+                {t('capture.fps')}
+                <select value={fps} onChange={(e) => setFps(Number(e.target.value))} className={selectClass}>
+                  {VIDEO_FPS.map((rate) => <option key={rate} value={rate}>{rate}</option>)}
+                </select>
+              </label>
+            </div>
+            <button
+              onClick={() => run('video', () => onRecordVideo({ width: videoWidth, duration, fps, includeUI }, setProgress))}
+              disabled={busy !== null}
+              className={actionButton}
+            >
+              <Video className="w-4 h-4" /> {busy === 'video' ? t('capture.recording', { percent: Math.round(progress * 100) }) : t('capture.recordWebm')}
+            </button>
+            {busy === 'video' && (
+              <div className="h-px bg-white/10">
+                <div className="h-full bg-accent-400" style={{ width: `${progress * 100}%` }} />
+              </div>
+            )}
+          </div>
+          {error && <p className="text-red-400">{error}</p>}
+        </div>
+      )}
+
+      <button
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="flex flex-col items-center gap-2 group cursor-pointer"
+      >
+        <div className="p-3 rounded-2xl bg-white/5 border border-white/10 group-hover:border-accent-400/50 transition-colors backdrop-blur-md">
+          <Camera className="w-5 h-5 text-accent-400" />
+        </div>
+        <span className="text-[10px] font-medium text-gray-400 uppercase tracking-wider">{t('capture.title')}</span>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Sparkles } from 'lucide-react';
+import { POST_EFFECTS } from '../utils/effects';
+import { useTranslation } from '../hooks/useTranslation';
+import { PostEffect, PostEffectToggles, QualitySettings } from '../types';
+
+interface EffectControlsProps {
+  effects: PostEffectToggles;
+  settings: QualitySettings;
+  onToggle: (effect: PostEffect) => void;
+}
+
+/**
+ * Post-processing switches; effects the current quality tier cannot afford are shown disabled
+ */
+export const EffectControls: React.FC<EffectControlsProps> = ({ effects, settings, onToggle }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex items-center gap-2 pointer-events-auto">
+      <Sparkles className="w-4 h-4 text-gray-500" />
+      <div role="group" aria-label={t('effects.group')} className="flex flex-wrap gap-1 text-[10px] uppercase tracking-wider">
+        {POST_EFFECTS.map((id) => {
+          const available = settings.postEffects.includes(id);
+          return (
+            <button
+              key={id}
+              onClick={() => onToggle(id)}
+              disabled={!available}
+              aria-pressed={available && effects[id]}
+              title={available ? undefined : t('effects.unavailable')}
+              className={`px-2.5 py-1 rounded-full border backdrop-blur-md transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${available && effects[id] ? 'border-accent-400/60 text-white bg-accent-400/20' : 'border-white/10 text-gray-400 hover:text-white'}`}
+            >
+              {t(`effect.${id}` as const)}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
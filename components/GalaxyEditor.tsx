@@ -0,0 +1,220 @@
+import React, { useRef, useState } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronUp, Save, Trash2, Download, Upload, RotateCcw } from 'lucide-react';
+import { GalaxyNumericKey, GalaxyParams, GalaxyPreset } from '../types';
+import { GALAXY_PARAMS, PARAM_RANGES } from '../utils/galaxy';
+import { getMorphology, morphologyValues } from '../utils/morphologies';
+import { downloadBlob } from '../utils/capture';
+import { errorMessage, localizeMorphology } from '../utils/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+import { loadPresets, savePreset, deletePreset, exportParams, importParams } from '../utils/presets';
+
+interface GalaxyEditorProps {
+  params: GalaxyParams;
+  onChange: (params: GalaxyParams) => void;
+}
+
+type ColorKey = 'insideColor' | 'outsideColor';
+
+// Labels are the `editor.<key>` messages; ranges come from PARAM_RANGES
+const SLIDERS: GalaxyNumericKey[] = ['radius', 'branches', 'spin', 'randomness', 'randomnessPower', 'dustRadius', 'dustRandomness'];
+
+const COUNTS: GalaxyNumericKey[] = ['starCount', 'dustCount'];
+
+const COLORS: ColorKey[] = ['insideColor', 'outsideColor'];
+
+const iconButton = 'p-1.5 rounded-lg border border-white/10 text-gray-400 hover:text-white hover:border-white/40 transition-colors';
+
+/**
+ * Collapsible panel for tuning the galaxy live, with named presets and JSON import/export
+ */
+export const GalaxyEditor: React.FC<GalaxyEditorProps> = ({ params, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [presets, setPresets] = useState<GalaxyPreset[]>(loadPresets);
+  const [presetName, setPresetName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { locale, t } = useTranslation();
+
+  const update = <K extends keyof GalaxyParams>(key: K, value: GalaxyParams[K]) => {
+    onChange({ ...params, [key]: value });
+  };
+
+  const morphology = localizeMorphology(getMorphology(params.morphology), locale);
+  const shape = morphologyValues(params);
+
+  // Storage can be full or disabled (e.g. private browsing); the list then stays as it was
+  const storePresets = (next: GalaxyPreset[] | null) => {
+    if (!next) {
+      setError(t('editor.presetsUnavailable'));
+      return false;
+    }
+    setPresets(next);
+    setError(null);
+    return true;
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    if (storePresets(savePreset(name, params))) setPresetName('');
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportParams(params)], { type: 'application/json' }), 'galaxy-params.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onChange(importParams(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, t, 'editor.importFailed'));
+    }
+  };
+
+  return (
+    <div className="w-72 rounded-2xl bg-black/60 border border-white/10 backdrop-blur-md text-xs text-gray-300 pointer-events-auto">
+      <button
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="w-full flex items-center justify-between px-4 py-3 text-white hover:bg-white/5 rounded-2xl transition-colors"
+      >
+        <span className="flex items-center gap-2 uppercase tracking-wider font-medium">
+          <SlidersHorizontal className="w-4 h-4 text-accent-400" /> {t('editor.title')}
+        </span>
+        {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-4 max-h-[60vh] overflow-y-auto">
+          {/* Shape */}
+          <div className="space-y-2">
+            {SLIDERS.map((key) => (
+              <label key={key} className="block">
+                <span className="flex justify-between">
+                  {t(`editor.${key}` as const)}
+                  <span className="font-mono text-white">{params[key]}</span>
+                </span>
+                <input
+                  type="range"
+                  min={PARAM_RANGES[key].min}
+                  max={PARAM_RANGES[key].max}
+                  step={PARAM_RANGES[key].step}
+                  value={params[key]}
+                  onChange={(e) => update(key, Number(e.target.value))}
+                  className="w-full accent-violet-500"
+                />
+              </label>
+            ))}
+          </div>
+
+          {/* Morphology */}
+          {morphology.params.length > 0 && (
+            <div className="space-y-2 border-t border-white/10 pt-3">
+              <span className="block uppercase tracking-wider text-gray-500">{morphology.label}</span>
+              {morphology.params.map(({ key, label, min, max, step }) => (
+                <label key={key} className="block">
+                  <span className="flex justify-between">
+                    {label}
+                    <span className="font-mono text-white">{shape[key]}</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={shape[key]}
+                    onChange={(e) => update('morphologyParams', { ...params.morphologyParams, [key]: Number(e.target.value) })}
+                    className="w-full accent-violet-500"
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+
+          {/* Counts */}
+          <div className="grid grid-cols-2 gap-3">
+            {COUNTS.map((key) => {
+              const { min, max, step } = PARAM_RANGES[key];
+              return (
+                <label key={key} className="block">
+                  {t(`editor.${key}` as const)}
+                  <input
+                    type="number"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={params[key]}
+                    onChange={(e) => update(key, Math.min(max, Math.max(min, Math.round(Number(e.target.value) || 0))))}
+                    className="mt-1 w-full bg-white/5 border border-white/10 rounded px-2 py-1 font-mono text-white"
+                  />
+                </label>
+              );
+            })}
+          </div>
+
+          {/* Colors */}
+          <div className="grid grid-cols-2 gap-3">
+            {COLORS.map((key) => (
+              <label key={key} className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={params[key]}
+                  onChange={(e) => update(key, e.target.value)}
+                  className="w-8 h-8 bg-transparent border-0 cursor-pointer"
+                />
+                {t(`editor.${key}` as const)}
+              </label>
+            ))}
+          </div>
+
+          {/* Presets */}
+          <div className="space-y-2 border-t border-white/10 pt-3">
+            <div className="flex gap-2">
+              <input
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+                placeholder={t('editor.presetName')}
+                aria-label={t('editor.presetName')}
+                className="flex-grow bg-white/5 border border-white/10 rounded px-2 py-1 text-white"
+              />
+              <button onClick={handleSavePreset} title={t('editor.savePreset')} aria-label={t('editor.savePreset')} className={iconButton}>
+                <Save className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            {presets.map((preset) => (
+              <div key={preset.name} className="flex items-center justify-between gap-2">
+                <button onClick={() => onChange(preset.params)} aria-label={t('editor.applyPreset', { name: preset.name })} className="truncate text-left hover:text-white transition-colors">
+                  {preset.name}
+                </button>
+                <button onClick={() => storePresets(deletePreset(preset.name))} title={t('editor.deletePreset')} aria-label={t('editor.deleteNamedPreset', { name: preset.name })} className="text-gray-500 hover:text-red-400">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Import / Export */}
+          <div className="flex gap-2 border-t border-white/10 pt-3">
+            <button onClick={handleExport} title={t('editor.export')} aria-label={t('editor.export')} className={iconButton}>
+              <Download className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} title={t('editor.import')} aria-label={t('editor.import')} className={iconButton}>
+              <Upload className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => onChange(GALAXY_PARAMS)} title={t('editor.reset')} aria-label={t('editor.reset')} className={iconButton}>
+              <RotateCcw className="w-3.5 h-3.5" />
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          </div>
+          {error && <p className="text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { useTranslation } from '../hooks/useTranslation';
+import { LOCALES, setLocale } from '../utils/i18n';
+
+/**
+ * Header switch between the interface languages
+ */
+export const LanguageSwitcher: React.FC = () => {
+  const { locale, t } = useTranslation();
+
+  return (
+    <div className="flex items-center gap-2">
+      <Languages className="w-4 h-4 text-gray-400" />
+      <div role="group" aria-label={t('header.language')} className="flex rounded-full bg-black/50 border border-white/10 backdrop-blur-md p-0.5 text-[10px]">
+        {LOCALES.map(({ id, label }) => (
+          <button
+            key={id}
+            lang={id}
+            onClick={() => setLocale(id)}
+            aria-pressed={locale === id}
+            className={`px-3 py-1 rounded-full transition-colors ${locale === id ? 'bg-white text-black font-bold' : 'text-gray-400 hover:text-white'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Loader } from 'lucide-react';
+import { useBufferProgress } from '../hooks/useBuffers';
+import { useTranslation } from '../hooks/useTranslation';
+
+/**
+ * Suspense fallback showing how far the buffer worker has got
+ */
+export const LoadingScreen: React.FC = () => {
+  const { done, total } = useBufferProgress();
+  const { t } = useTranslation();
+  const percent = total > 0 ? Math.floor((done / total) * 100) : 0;
+
+  return (
+    <div className="flex flex-col items-center justify-center w-full h-full text-white">
+      <div className="flex items-center">
+        <Loader className="w-8 h-8 animate-spin text-accent-400" />
+        <span className="ml-2 text-sm font-light tracking-widest uppercase">{t('app.loading')}</span>
+        {total > 0 && <span className="ml-2 w-10 text-sm font-mono text-gray-400">{percent}%</span>}
+      </div>
+      <div className="mt-4 w-48 h-px bg-white/10">
+        <div className="h-full bg-accent-400 transition-[width] duration-200" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
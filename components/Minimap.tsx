@@ -0,0 +1,181 @@
+import React, { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { CAMERA_FOV, galaxyJobs } from './Scene';
+import { STAR_SYSTEMS } from '../data/starSystems';
+import { GALAXY_TILT, ORBIT_RATE, getOrbitalPosition, orbitalAngle } from '../utils/galaxy';
+import { peekBuffers } from '../utils/bufferCache';
+import { useTranslation } from '../hooks/useTranslation';
+import { QUALITY_TIERS } from '../utils/quality';
+import { CameraPose, GalaxyBuffers, GalaxyParams, QualityTier, Vec3Tuple } from '../types';
+
+interface MinimapProps {
+  seed: number;
+  params: GalaxyParams;
+  quality: QualityTier;
+  time: React.MutableRefObject<number>;
+  getCameraPose: () => CameraPose | null;
+  onSelectSystem: (id: string) => void;
+  onNavigate: (pose: CameraPose) => void;
+}
+
+// CSS pixels
+const SIZE = 160;
+// Stars drawn on the map, sampled evenly from the galaxy's buffers
+const MAX_STARS = 2000;
+// Clicks this close to a marker pick its system
+const MARKER_HIT = 10;
+
+const X_AXIS = new THREE.Vector3(1, 0, 0);
+
+interface MapStar {
+  x: number;
+  z: number;
+  radius: number;
+  style: string;
+}
+
+const sampleStars = ({ positions, colors, radii }: GalaxyBuffers): MapStar[] => {
+  const stride = Math.max(1, Math.floor(radii.length / MAX_STARS));
+  const color = new THREE.Color();
+  const stars: MapStar[] = [];
+  for (let i = 0; i < radii.length; i += stride) {
+    color.setRGB(colors[i * 3], colors[i * 3 + 1], colors[i * 3 + 2]);
+    stars.push({ x: positions[i * 3], z: positions[i * 3 + 2], radius: radii[i], style: color.getStyle() });
+  }
+  return stars;
+};
+
+/**
+ * Top-down map of the galaxy plane with the system markers and the camera's field of view.
+ * Stars turn with the same differential rotation as the scene. Clicking a marker selects its system;
+ * clicking anywhere else flies the camera there, keeping its current angle to the target.
+ * A pointer shortcut only, hidden from screen readers: keyboard users reach the systems through SystemSearch.
+ */
+export const Minimap: React.FC<MinimapProps> = ({ seed, params, quality, time, getCameraPose, onSelectSystem, onNavigate }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const markers = useRef<{ id: string; x: number; y: number }[]>([]);
+  const { t } = useTranslation();
+  const job = galaxyJobs(seed, params, QUALITY_TIERS[quality].particleScale).main;
+  const extent = params.radius * 1.15;
+  const scale = SIZE / 2 / extent;
+
+  // Latest props for the draw loop, which outlives any one render
+  const latest = useRef({ job, params, getCameraPose });
+  latest.current = { job, params, getCameraPose };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = SIZE * ratio;
+    canvas.height = SIZE * ratio;
+
+    let sampled: { buffers: GalaxyBuffers; stars: MapStar[] } | null = null;
+    const point = new THREE.Vector3();
+    const target = new THREE.Vector3();
+    let frame = 0;
+
+    const toMap = (x: number, z: number) => [SIZE / 2 + x * scale, SIZE / 2 + z * scale];
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const { job, params, getCameraPose } = latest.current;
+      const orbitTime = time.current * ORBIT_RATE;
+
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      context.clearRect(0, 0, SIZE, SIZE);
+
+      // Stars, once the scene has generated them
+      const buffers = peekBuffers(job);
+      if (buffers && sampled?.buffers !== buffers) sampled = { buffers, stars: sampleStars(buffers) };
+      if (sampled) {
+        context.globalAlpha = 0.6;
+        for (const star of sampled.stars) {
+          const angle = orbitalAngle(star.radius, orbitTime);
+          const c = Math.cos(angle);
+          const s = Math.sin(angle);
+          const [x, y] = toMap(c * star.x + s * star.z, -s * star.x + c * star.z);
+          context.fillStyle = star.style;
+          context.fillRect(x, y, 1, 1);
+        }
+        context.globalAlpha = 1;
+      }
+
+      // Camera field of view, in the galaxy's own (untilted) plane
+      const pose = getCameraPose();
+      if (pose) {
+        point.fromArray(pose.position).applyAxisAngle(X_AXIS, -GALAXY_TILT);
+        target.fromArray(pose.target).applyAxisAngle(X_AXIS, -GALAXY_TILT);
+        const heading = Math.atan2(target.z - point.z, target.x - point.x);
+        const halfFov = Math.atan(Math.tan(THREE.MathUtils.degToRad(CAMERA_FOV) / 2) * (window.innerWidth / window.innerHeight));
+        const [cx, cy] = toMap(point.x, point.z);
+
+        context.fillStyle = 'rgba(255, 255, 255, 0.12)';
+        context.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+        context.beginPath();
+        context.moveTo(cx, cy);
+        context.arc(cx, cy, SIZE * 1.5, heading - halfFov, heading + halfFov);
+        context.closePath();
+        context.fill();
+        context.stroke();
+
+        context.fillStyle = '#fff';
+        context.beginPath();
+        context.arc(cx, cy, 2.5, 0, Math.PI * 2);
+        context.fill();
+      }
+
+      // System markers
+      markers.current = STAR_SYSTEMS.map((system) => {
+        getOrbitalPosition(system.radius, system.arm, params, orbitTime, point);
+        const [x, y] = toMap(point.x, point.z);
+        context.fillStyle = system.palette.star;
+        context.shadowColor = system.palette.star;
+        context.shadowBlur = 6;
+        context.beginPath();
+        context.arc(x, y, 3.5, 0, Math.PI * 2);
+        context.fill();
+        context.shadowBlur = 0;
+        return { id: system.id, x, y };
+      });
+    };
+
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [time, scale]);
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+
+    const marker = markers.current.find((m) => Math.hypot(m.x - x, m.y - y) <= MARKER_HIT);
+    if (marker) {
+      onSelectSystem(marker.id);
+      return;
+    }
+
+    const pose = getCameraPose();
+    if (!pose) return;
+    // The clicked point on the galaxy plane, tilted into the scene's frame
+    const target = new THREE.Vector3((x - SIZE / 2) / scale, 0, (y - SIZE / 2) / scale).applyAxisAngle(X_AXIS, GALAXY_TILT);
+    const offset = new THREE.Vector3().fromArray(pose.position).sub(new THREE.Vector3().fromArray(pose.target));
+    onNavigate({
+      position: target.clone().add(offset).toArray() as Vec3Tuple,
+      target: target.toArray() as Vec3Tuple,
+    });
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onClick={handleClick}
+      aria-hidden="true"
+      title={t('minimap.label')}
+      className="rounded-full bg-black/50 border border-white/10 backdrop-blur-md cursor-crosshair pointer-events-auto"
+      style={{ width: SIZE, height: SIZE }}
+    />
+  );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import { MORPHOLOGIES, MORPHOLOGY_ORDER } from '../utils/morphologies';
+import { localizeMorphology } from '../utils/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+import { MorphologyId } from '../types';
+
+interface MorphologySelectorProps {
+  value: MorphologyId;
+  onChange: (morphology: MorphologyId) => void;
+}
+
+/**
+ * Galaxy shape picker; the stars glide to the new layout
+ */
+export const MorphologySelector: React.FC<MorphologySelectorProps> = ({ value, onChange }) => {
+  const { locale, t } = useTranslation();
+
+  return (
+    <div role="group" aria-label={t('morphology.group')} className="flex flex-wrap justify-center gap-2 text-xs">
+      {MORPHOLOGY_ORDER.map((id) => (
+        <button
+          key={id}
+          onClick={() => onChange(id)}
+          aria-pressed={value === id}
+          className={`px-3 py-1 rounded-full border transition-colors backdrop-blur-sm ${value === id ? 'bg-white text-black border-white font-bold' : 'border-white/20 text-gray-400 hover:text-white hover:border-white/40'}`}
+        >
+          {localizeMorphology(MORPHOLOGIES[id], locale).label}
+        </button>
+      ))}
+    </div>
+  );
+};
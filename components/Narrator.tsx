@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RotateCcw, Send, Sparkles, Square } from 'lucide-react';
+import { narrator } from '../utils/narrator';
+import { useTranslation } from '../hooks/useTranslation';
+import { NarratorTurn, StarSystemDefinition } from '../types';
+
+interface NarratorProps {
+  // Localized; remount (key) the narrator to start over for another system or locale
+  system: StarSystemDefinition;
+}
+
+/**
+ * Streams a generated description of the system, then answers follow-up questions about it
+ */
+export const Narrator: React.FC<NarratorProps> = ({ system }) => {
+  const { locale, t } = useTranslation();
+  const [turns, setTurns] = useState<NarratorTurn[]>([]);
+  // The reply being streamed, committed to `turns` once it ends
+  const [reply, setReply] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [question, setQuestion] = useState('');
+  const controllerRef = useRef<AbortController | null>(null);
+  const logRef = useRef<HTMLDivElement>(null);
+  const name = `${system.label.title}${system.label.highlight}`;
+
+  const request = async (history: NarratorTurn[]) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setTurns(history);
+    setReply('');
+    setError(null);
+
+    let text = '';
+    try {
+      for await (const chunk of narrator.stream({ system, locale, turns: history }, controller.signal)) {
+        text += chunk;
+        setReply(text);
+      }
+    } catch (err) {
+      // Stopped by the user or by unmounting; whatever arrived is kept
+      if (!controller.signal.aborted) setError(err instanceof Error ? err.message : String(err));
+    }
+    if (controllerRef.current !== controller) return;
+    controllerRef.current = null;
+    setReply(null);
+    if (text) setTurns([...history, { role: 'narrator', text }]);
+  };
+
+  useEffect(() => {
+    request([]);
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  // Keep the latest text in view while it streams
+  useEffect(() => {
+    logRef.current?.scrollTo(0, logRef.current.scrollHeight);
+  }, [turns, reply, error]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || reply !== null) return;
+    setQuestion('');
+    request([...turns, { role: 'user', text }]);
+  };
+
+  const streaming = reply !== null;
+
+  return (
+    <section className="space-y-3 border-t border-white/10 pt-6 text-sm">
+      <h3 className="flex items-center gap-2 text-xs uppercase tracking-wider font-medium text-white">
+        <Sparkles className="w-4 h-4" style={{ color: system.palette.accent }} /> {t('narrator.title')}
+      </h3>
+      {narrator.id === 'mock' && <p className="text-[10px] text-gray-500">{t('narrator.offline')}</p>}
+
+      <div ref={logRef} aria-live="polite" aria-busy={streaming} className="max-h-64 overflow-y-auto space-y-3 leading-relaxed">
+        {turns.map((turn, i) => (
+          <p
+            key={i}
+            className={turn.role === 'user' ? 'ml-8 px-3 py-2 rounded-xl bg-white/10 text-white' : 'text-gray-300 whitespace-pre-line'}
+          >
+            {turn.text}
+          </p>
+        ))}
+        {streaming && (
+          <p className="text-gray-300 whitespace-pre-line">
+            {reply}
+            <span aria-hidden="true" className="inline-block w-1.5 h-3.5 ml-0.5 align-middle animate-pulse" style={{ backgroundColor: system.palette.accent }} />
+          </p>
+        )}
+        {error && (
+          <div role="alert" className="flex items-start justify-between gap-3 text-xs text-red-400">
+            {t('narrator.failed', { message: error })}
+            <button onClick={() => request(turns)} className="flex items-center gap-1 shrink-0 text-gray-300 hover:text-white transition-colors">
+              <RotateCcw className="w-3 h-3" /> {t('narrator.retry')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder={t('narrator.ask', { name })}
+          aria-label={t('narrator.ask', { name })}
+          className="flex-1 min-w-0 px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-white text-xs placeholder-gray-500 outline-none focus:border-white/40 transition-colors"
+        />
+        {streaming ? (
+          <button
+            type="button"
+            onClick={() => controllerRef.current?.abort()}
+            title={t('narrator.stop')}
+            aria-label={t('narrator.stop')}
+            className="p-2 rounded-full border border-white/20 text-white hover:bg-white/10 transition-colors"
+          >
+            <Square className="w-3 h-3 fill-white" />
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!question.trim()}
+            title={t('narrator.send')}
+            aria-label={t('narrator.send')}
+            className="p-2 rounded-full bg-white text-black hover:scale-105 active:scale-95 disabled:opacity-40 disabled:hover:scale-100 transition-transform"
+          >
+            <Send className="w-3 h-3" />
+          </button>
+        )}
+      </form>
+    </section>
+  );
+};
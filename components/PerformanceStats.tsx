@@ -0,0 +1,84 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { PerformanceStats, QualitySetting, QualityTier } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+
+const SAMPLE_MS = 500;
+
+/**
+ * Samples frame rate and renderer counters into a ref, inside the Canvas
+ */
+export const StatsProbe: React.FC<{ statsRef: React.MutableRefObject<PerformanceStats | null> }> = ({ statsRef }) => {
+  const frames = useRef(0);
+  const windowStart = useRef(performance.now());
+
+  useFrame((state) => {
+    frames.current += 1;
+    const now = performance.now();
+    const elapsed = now - windowStart.current;
+    if (elapsed < SAMPLE_MS) return;
+
+    // Counters describe the previous frame, which is what this sample covers
+    const { render } = state.gl.info;
+    statsRef.current = {
+      fps: (frames.current * 1000) / elapsed,
+      frameMs: elapsed / frames.current,
+      drawCalls: render.calls,
+      triangles: render.triangles,
+      points: render.points,
+    };
+    frames.current = 0;
+    windowStart.current = now;
+  });
+
+  return null;
+};
+
+/**
+ * Polls the latest stats for DOM overlays, outside the Canvas
+ */
+export const useStats = (statsRef: React.MutableRefObject<PerformanceStats | null>) => {
+  const [stats, setStats] = useState(statsRef.current);
+
+  useEffect(() => {
+    const id = window.setInterval(() => setStats(statsRef.current), SAMPLE_MS);
+    return () => window.clearInterval(id);
+  }, [statsRef]);
+
+  return stats;
+};
+
+interface StatsOverlayProps {
+  statsRef: React.MutableRefObject<PerformanceStats | null>;
+  tier: QualityTier;
+  setting: QualitySetting;
+}
+
+/**
+ * On-screen FPS / draw-call readout for QA
+ */
+export const StatsOverlay: React.FC<StatsOverlayProps> = ({ statsRef, tier, setting }) => {
+  const stats = useStats(statsRef);
+  const { locale, t } = useTranslation();
+  const tierLabel = t(`quality.${tier}`);
+
+  const rows: [string, string][] = [
+    [t('quality.stats.fps'), stats ? stats.fps.toFixed(0) : '–'],
+    [t('quality.stats.frame'), stats ? t('quality.stats.frameTime', { ms: stats.frameMs.toFixed(1) }) : '–'],
+    [t('quality.stats.drawCalls'), stats ? String(stats.drawCalls) : '–'],
+    [t('quality.stats.triangles'), stats ? stats.triangles.toLocaleString(locale) : '–'],
+    [t('quality.stats.points'), stats ? stats.points.toLocaleString(locale) : '–'],
+    [t('quality.stats.quality'), setting === 'auto' ? t('quality.stats.auto', { tier: tierLabel }) : tierLabel],
+  ];
+
+  return (
+    <div className="rounded-lg bg-black/70 border border-white/10 px-3 py-2 font-mono text-[10px] text-gray-300 pointer-events-none">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-6">
+          <span className="text-gray-500">{label}</span>
+          <span className="text-white">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { BokehPass } from 'three/examples/jsm/postprocessing/BokehPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { FinishShader } from '../shaders/finishShader';
+import { starSystemObjectName } from './StarSystem';
+import { PostEffectToggles } from '../types';
+
+interface PostEffectsProps {
+  effects: PostEffectToggles;
+  // System the depth of field focuses on; without one everything stays sharp
+  focusId: string | null;
+  time: React.MutableRefObject<number>;
+  reducedMotion: boolean;
+}
+
+// Strength of each finishing effect when switched on
+const VIGNETTE = 0.6;
+const GRAIN = 0.06;
+const ABERRATION = 0.02;
+// Blur at the far edges of the depth of field, in screen fractions
+const MAX_BLUR = 0.008;
+
+/**
+ * Post-processing stack that takes over rendering while mounted:
+ * scene → depth of field → bloom → tone mapping → aberration, vignette and grain.
+ * Bloom only catches HDR colors above 1.0, i.e. the boosted star cores and rings.
+ */
+export const PostEffects: React.FC<PostEffectsProps> = ({ effects, focusId, time, reducedMotion }) => {
+  const { gl, scene, camera, size } = useThree();
+  const focusPoint = useMemo(() => new THREE.Vector3(), []);
+  const applied = useRef({ width: 0, height: 0, ratio: 0 });
+
+  const stack = useMemo(() => {
+    // Multisampled, since the canvas's own antialiasing does not apply to offscreen targets
+    const composer = new EffectComposer(gl, new THREE.WebGLRenderTarget(1, 1, { type: THREE.HalfFloatType, samples: 4 }));
+    const bokeh = new BokehPass(scene, camera, { focus: 10, aperture: 0.002, maxblur: 0 });
+    const bloom = new UnrealBloomPass(new THREE.Vector2(256, 256), 0.8, 0.5, 1);
+    const finish = new ShaderPass(FinishShader);
+
+    composer.addPass(new RenderPass(scene, camera));
+    composer.addPass(bokeh);
+    composer.addPass(bloom);
+    composer.addPass(new OutputPass());
+    composer.addPass(finish);
+    return { composer, bokeh, bloom, finish };
+  }, [gl, scene, camera]);
+
+  useEffect(() => {
+    applied.current = { width: 0, height: 0, ratio: 0 };
+    // Counters are reset once per frame below, so stats cover every pass rather than the last one
+    gl.info.autoReset = false;
+    return () => {
+      gl.info.autoReset = true;
+      stack.composer.passes.forEach((pass) => pass.dispose());
+      stack.composer.dispose();
+    };
+  }, [gl, stack]);
+
+  useFrame((state, delta) => {
+    const { composer, bokeh, bloom, finish } = stack;
+
+    // Follows resizes and the capture's raised pixel ratio
+    const ratio = state.gl.getPixelRatio();
+    if (applied.current.width !== size.width || applied.current.height !== size.height || applied.current.ratio !== ratio) {
+      composer.setPixelRatio(ratio);
+      composer.setSize(size.width, size.height);
+      applied.current = { width: size.width, height: size.height, ratio };
+    }
+
+    // Depth of field eases in around the focused system, so the galaxy behind it softens
+    const target = focusId && effects.depthOfField ? state.scene.getObjectByName(starSystemObjectName(focusId)) : undefined;
+    if (target) bokeh.uniforms.focus.value = state.camera.position.distanceTo(target.getWorldPosition(focusPoint));
+    const blur = target ? MAX_BLUR : 0;
+    bokeh.uniforms.maxblur.value = reducedMotion ? blur : THREE.MathUtils.lerp(bokeh.uniforms.maxblur.value, blur, Math.min(delta * 4, 1));
+    bokeh.enabled = bokeh.uniforms.maxblur.value > 1e-4;
+
+    bloom.enabled = effects.bloom;
+    finish.enabled = effects.vignette || effects.grain || effects.chromaticAberration;
+    finish.uniforms.uVignette.value = effects.vignette ? VIGNETTE : 0;
+    finish.uniforms.uGrain.value = effects.grain ? GRAIN : 0;
+    finish.uniforms.uAberration.value = effects.chromaticAberration ? ABERRATION : 0;
+    // Grain runs on the simulation clock, so it holds still while paused; still grain in reduced-motion mode
+    if (!reducedMotion) finish.uniforms.uTime.value = time.current;
+
+    state.gl.info.reset();
+    composer.render(delta);
+  }, 1);
+
+  return null;
+};
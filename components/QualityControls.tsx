@@ -0,0 +1,47 @@
+import React from 'react';
+import { Activity, Gauge } from 'lucide-react';
+import { useTranslation } from '../hooks/useTranslation';
+import { QualitySetting } from '../types';
+
+interface QualityControlsProps {
+  setting: QualitySetting;
+  onChange: (setting: QualitySetting) => void;
+  showStats: boolean;
+  onToggleStats: () => void;
+}
+
+const OPTIONS: QualitySetting[] = ['low', 'medium', 'high', 'auto'];
+
+/**
+ * Manual quality override and stats overlay toggle
+ */
+export const QualityControls: React.FC<QualityControlsProps> = ({ setting, onChange, showStats, onToggleStats }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex items-center gap-2 pointer-events-auto">
+      <Gauge className="w-4 h-4 text-gray-500" />
+      <div role="group" aria-label={t('quality.group')} className="flex rounded-full bg-black/50 border border-white/10 backdrop-blur-md p-0.5 text-[10px] uppercase tracking-wider">
+        {OPTIONS.map((value) => (
+          <button
+            key={value}
+            onClick={() => onChange(value)}
+            aria-pressed={setting === value}
+            className={`px-3 py-1 rounded-full transition-colors ${setting === value ? 'bg-white text-black font-bold' : 'text-gray-400 hover:text-white'}`}
+          >
+            {t(`quality.${value}` as const)}
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={onToggleStats}
+        title={showStats ? t('quality.hideStats') : t('quality.showStats')}
+        aria-label={t('quality.stats')}
+        aria-pressed={showStats}
+        className={`p-1.5 rounded-full border transition-colors ${showStats ? 'border-green-400/60 text-green-400' : 'border-white/10 text-gray-400 hover:text-white'}`}
+      >
+        <Activity className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
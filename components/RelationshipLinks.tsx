@@ -0,0 +1,216 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { starSystemObjectName } from './StarSystem';
+import { RELATIONSHIPS, RELATIONSHIP_STYLES } from '../data/relationships';
+import { BLOOM_BOOST } from '../utils/effects';
+import { createLinkArcMaterial, createLinkParticleMaterial } from '../shaders/linkMaterial';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface RelationshipLinksProps {
+  active: boolean;
+  // Shared simulation clock, in seconds
+  time: React.MutableRefObject<number>;
+  // Hovered, focused or selected system, whose links are emphasized and labeled
+  focusedId: string | null;
+  particleScale: number;
+  bloom: boolean;
+}
+
+// Line segments per arc
+const ARC_SEGMENTS = 48;
+// Rise of an arc above the galaxy plane, and the sideways gap between arcs joining the same pair,
+// both as fractions of the distance between the two systems
+const ARC_HEIGHT = 0.3;
+const LANE_SPREAD = 0.22;
+const PARTICLES_PER_EDGE = 10;
+const PARTICLE_SIZE = 0.05;
+
+const samePair = (a: { from: string; to: string }, b: { from: string; to: string }) =>
+  (a.from === b.from && a.to === b.to) || (a.from === b.to && a.to === b.from);
+
+// Lane of each edge among those joining the same pair, spread evenly around the straight path
+const LANES = RELATIONSHIPS.map((edge) => {
+  const pair = RELATIONSHIPS.filter((other) => samePair(edge, other));
+  return pair.indexOf(edge) - (pair.length - 1) / 2;
+});
+
+/**
+ * Point at `t` (0 at `edge.from`) on the quadratic Bézier arc between two system positions
+ */
+const arcPoint = (start: THREE.Vector3, control: THREE.Vector3, end: THREE.Vector3, t: number, target: THREE.Vector3) => {
+  const u = 1 - t;
+  return target
+    .copy(start).multiplyScalar(u * u)
+    .addScaledVector(control, 2 * u * t)
+    .addScaledVector(end, t * t);
+};
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Control point raising the arc off the plane and pushing it to its lane. The sideways direction is
+ * taken from the pair in a fixed order, so edges in opposite directions still land in separate lanes.
+ */
+const arcControl = (from: THREE.Vector3, to: THREE.Vector3, lane: number, flipped: boolean, target: THREE.Vector3, side: THREE.Vector3) => {
+  const distance = from.distanceTo(to);
+  side.subVectors(to, from).cross(UP).normalize();
+  if (flipped) side.negate();
+  return target
+    .addVectors(from, to).multiplyScalar(0.5)
+    .addScaledVector(UP, distance * ARC_HEIGHT)
+    .addScaledVector(side, distance * LANE_SPREAD * lane);
+};
+
+/**
+ * Arcs between related star systems, with particles flowing along them. Systems move, so the arcs are
+ * recomputed every frame from where the systems are; render inside the same group as the systems.
+ */
+export const RelationshipLinks: React.FC<RelationshipLinksProps> = ({ active, time, focusedId, particleScale, bloom }) => {
+  const { t } = useTranslation();
+  const arcMaterial = useMemo(() => createLinkArcMaterial(), []);
+  const particleMaterial = useMemo(() => createLinkParticleMaterial(PARTICLE_SIZE), []);
+  const labelRefs = useRef<(THREE.Group | null)[]>([]);
+  const particlesPerEdge = Math.max(2, Math.round(PARTICLES_PER_EDGE * particleScale));
+
+  const arcs = useMemo(() => {
+    const vertices = ARC_SEGMENTS * 2;
+    const geometry = new THREE.BufferGeometry();
+    const progress = new Float32Array(RELATIONSHIPS.length * vertices);
+    const speed = new Float32Array(RELATIONSHIPS.length * vertices);
+    RELATIONSHIPS.forEach((edge, e) => {
+      for (let v = 0; v < vertices; v++) {
+        // Segment s runs from point s to point s + 1
+        progress[e * vertices + v] = (Math.floor(v / 2) + (v % 2)) / ARC_SEGMENTS;
+        speed[e * vertices + v] = RELATIONSHIP_STYLES[edge.kind].speed;
+      }
+    });
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(RELATIONSHIPS.length * vertices * 3), 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(RELATIONSHIPS.length * vertices * 3), 3));
+    geometry.setAttribute('aProgress', new THREE.BufferAttribute(progress, 1));
+    geometry.setAttribute('aSpeed', new THREE.BufferAttribute(speed, 1));
+    geometry.setAttribute('aEmphasis', new THREE.BufferAttribute(new Float32Array(RELATIONSHIPS.length * vertices), 1));
+    return geometry;
+  }, []);
+
+  const particles = useMemo(() => {
+    const count = RELATIONSHIPS.length * particlesPerEdge;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+    geometry.setAttribute('aEmphasis', new THREE.BufferAttribute(new Float32Array(count), 1));
+    return geometry;
+  }, [particlesPerEdge]);
+
+  useEffect(() => () => arcs.dispose(), [arcs]);
+  useEffect(() => () => particles.dispose(), [particles]);
+  useEffect(() => () => {
+    arcMaterial.dispose();
+    particleMaterial.dispose();
+  }, [arcMaterial, particleMaterial]);
+
+  // Colors, boosted past the bloom threshold like star cores, and emphasis around the focused system
+  useEffect(() => {
+    const color = new THREE.Color();
+    const fill = (geometry: THREE.BufferGeometry, perEdge: number) => {
+      const colors = geometry.getAttribute('color') as THREE.BufferAttribute;
+      const emphasis = geometry.getAttribute('aEmphasis') as THREE.BufferAttribute;
+      RELATIONSHIPS.forEach((edge, e) => {
+        color.set(RELATIONSHIP_STYLES[edge.kind].color).multiplyScalar(bloom ? BLOOM_BOOST : 1);
+        const level = !focusedId ? 0.5 : edge.from === focusedId || edge.to === focusedId ? 1 : 0;
+        for (let i = e * perEdge; i < (e + 1) * perEdge; i++) {
+          colors.setXYZ(i, color.r, color.g, color.b);
+          emphasis.setX(i, level);
+        }
+      });
+      colors.needsUpdate = true;
+      emphasis.needsUpdate = true;
+    };
+    fill(arcs, ARC_SEGMENTS * 2);
+    fill(particles, particlesPerEdge);
+  }, [arcs, particles, particlesPerEdge, focusedId, bloom]);
+
+  const scratch = useMemo(() => ({
+    control: new THREE.Vector3(),
+    side: new THREE.Vector3(),
+    point: new THREE.Vector3(),
+    next: new THREE.Vector3(),
+  }), []);
+
+  useFrame(({ scene, size, gl }, delta) => {
+    const opacity = THREE.MathUtils.lerp(arcMaterial.uniforms.uOpacity.value, active ? 1 : 0, Math.min(delta * 3, 1));
+    arcMaterial.uniforms.uOpacity.value = opacity;
+    particleMaterial.uniforms.uOpacity.value = opacity;
+    if (opacity < 0.001) return;
+
+    const now = time.current;
+    arcMaterial.uniforms.uTime.value = now;
+    // Matches PointsMaterial size attenuation
+    particleMaterial.uniforms.uScale.value = size.height * 0.5 * gl.getPixelRatio();
+
+    const systems = new Map<string, THREE.Object3D | undefined>();
+    const find = (id: string) => {
+      if (!systems.has(id)) systems.set(id, scene.getObjectByName(starSystemObjectName(id)));
+      return systems.get(id);
+    };
+
+    const arcPositions = arcs.getAttribute('position') as THREE.BufferAttribute;
+    const particlePositions = particles.getAttribute('position') as THREE.BufferAttribute;
+    const { control, side, point, next } = scratch;
+
+    RELATIONSHIPS.forEach((edge, e) => {
+      const from = find(edge.from)?.position;
+      const to = find(edge.to)?.position;
+      if (!from || !to) return;
+      arcControl(from, to, LANES[e], edge.from > edge.to, control, side);
+
+      for (let s = 0; s < ARC_SEGMENTS; s++) {
+        const vertex = (e * ARC_SEGMENTS + s) * 2;
+        arcPoint(from, control, to, s / ARC_SEGMENTS, point);
+        arcPoint(from, control, to, (s + 1) / ARC_SEGMENTS, next);
+        arcPositions.setXYZ(vertex, point.x, point.y, point.z);
+        arcPositions.setXYZ(vertex + 1, next.x, next.y, next.z);
+      }
+
+      // Evenly spaced, all moving at the kind's speed from source to target (backwards when time runs back)
+      const { speed } = RELATIONSHIP_STYLES[edge.kind];
+      for (let p = 0; p < particlesPerEdge; p++) {
+        const progress = THREE.MathUtils.euclideanModulo(p / particlesPerEdge + now * speed, 1);
+        arcPoint(from, control, to, progress, point);
+        particlePositions.setXYZ(e * particlesPerEdge + p, point.x, point.y, point.z);
+      }
+
+      labelRefs.current[e]?.position.copy(arcPoint(from, control, to, 0.5, point));
+    });
+    arcPositions.needsUpdate = true;
+    particlePositions.needsUpdate = true;
+  });
+
+  return (
+    <group>
+      <lineSegments geometry={arcs} material={arcMaterial} frustumCulled={false} raycast={() => null} />
+      <points geometry={particles} material={particleMaterial} frustumCulled={false} raycast={() => null} />
+
+      {/* Labels only for the focused system's links, so they stay readable however many edges there are */}
+      {RELATIONSHIPS.map((edge, e) => (
+        <group key={e} ref={(group) => { labelRefs.current[e] = group; }}>
+          {active && (edge.from === focusedId || edge.to === focusedId) && (
+            <Html center style={{ pointerEvents: 'none' }} distanceFactor={8}>
+              <div
+                aria-hidden="true"
+                className="flex items-center gap-1.5 whitespace-nowrap px-2 py-0.5 rounded-full bg-black/60 border text-[10px] uppercase tracking-wider text-white backdrop-blur-sm"
+                style={{ borderColor: `${RELATIONSHIP_STYLES[edge.kind].color}66` }}
+              >
+                <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: RELATIONSHIP_STYLES[edge.kind].color }} />
+                {t(`relationship.${edge.kind}`)}
+                {/* Which way the edge points, seen from the focused system */}
+                <span className="text-white/50">{edge.from === focusedId ? '→' : '←'}</span>
+              </div>
+            </Html>
+          )}
+        </group>
+      ))}
+    </group>
+  );
+};
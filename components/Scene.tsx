@@ -1,627 +1,480 @@
-import React, { useRef, useMemo, useState, useEffect } from 'react';
+import React, { useRef, useMemo, useState, useCallback, useEffect } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { Points, PointMaterial, Stars, Float, Html, Billboard, OrbitControls } from '@react-three/drei';
+import { Stars, PerformanceMonitor } from '@react-three/drei';
 import * as THREE from 'three';
+import { StarSystem, cloudJob } from './StarSystem';
+import { StatsProbe } from './PerformanceStats';
+import { CaptureBridge, CaptureHandle } from './CaptureBridge';
+import { Soundscape } from './Soundscape';
+import { RelationshipLinks } from './RelationshipLinks';
+import { PostEffects } from './PostEffects';
+import { CameraController, CameraControllerHandle, CameraMode, EXPLORE_POSE } from './CameraController';
+import { STAR_SYSTEMS } from '../data/starSystems';
+import { linkedSystems } from '../data/relationships';
+import { GALAXY_TILT, MORPH_DURATION, NEBULAE_PER_ARM, ORBIT_RATE } from '../utils/galaxy';
+import { HERO_TIME_SCALE } from '../utils/simulation';
+import { createGalaxyMaterial } from '../shaders/galaxyMaterial';
+import { createNebulaMaterial } from '../shaders/nebulaMaterial';
+import { loadBuffers } from '../utils/bufferCache';
+import { REDUCED_MOTION_SCALE } from '../utils/motion';
+import { useBuffers } from '../hooks/useBuffers';
+import { QUALITY_TIERS } from '../utils/quality';
+import { activeEffects } from '../utils/effects';
+import { CameraPose, GalaxyBuffers, GalaxyJob, GalaxyParams, MorphologyId, NebulaJob, PerformanceStats, PostEffectToggles, QualityTier, SimulationPlayback, TourPlayback } from '../types';
 
 export interface SceneProps {
   active: boolean;
+  seed: number;
+  galaxy: GalaxyParams;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  // System cycled to with the keyboard, not yet selected
+  keyboardFocusId: string | null;
+  // System and planet ids to pick out, from the WisdomSQL console
+  highlights: string[];
+  // Pose from a shared link; replaces the default explore viewpoint
+  initialPose?: CameraPose | null;
+  // Imperative camera API (flyTo, current pose for share links)
+  cameraRef?: React.Ref<CameraControllerHandle>;
+  tour: TourPlayback | null;
+  onTourAdvance: () => void;
+  simulation: SimulationPlayback;
+  // Simulation time in seconds, shared with the time controls so they can read and scrub it
+  time: React.MutableRefObject<number>;
+  quality: QualityTier;
+  // Post-processing the user has switched on; the quality tier may drop some of them
+  effects: PostEffectToggles;
+  // When set, frame times step the quality tier up or down
+  onQualityStep?: (direction: 1 | -1) => void;
+  statsRef?: React.MutableRefObject<PerformanceStats | null>;
+  // Slows ambient animation, stills the galaxy's bobbing and swaps camera flights for cross-fades
+  reducedMotion: boolean;
+  fadeRef?: React.RefObject<HTMLDivElement | null>;
+  // Touch-first device, and whether device tilt drives the hero parallax
+  touch: boolean;
+  gyroscope: boolean;
+  // Share of the canvas height hidden under a bottom sheet
+  bottomInset: number;
+  captureRef?: React.Ref<CaptureHandle>;
 }
 
-// Galaxy Generation Parameters
-const GALAXY_PARAMS = {
-  radius: 5,
-  branches: 3,
-  spin: 1,
-  randomness: 0.2,
-  randomnessPower: 3,
-  insideColor: '#ff6030',
-  outsideColor: '#1b3984',
+// Vertical field of view, in degrees
+export const CAMERA_FOV = 50;
+
+interface SimulationClockProps {
+  active: boolean;
+  reducedMotion: boolean;
+  playback: SimulationPlayback;
+  time: React.MutableRefObject<number>;
+}
+
+/**
+ * Advances the shared simulation time before anything reads it this frame
+ */
+const SimulationClock: React.FC<SimulationClockProps> = ({ active, reducedMotion, playback, time }) => {
+  useFrame((state, delta) => {
+    if (!playback.playing) return;
+    const motion = reducedMotion ? REDUCED_MOTION_SCALE : 1;
+    time.current += delta * playback.speed * motion * (active ? 1 : HERO_TIME_SCALE);
+  }, -2);
+
+  return null;
+};
+
+// Radians per simulation second, and the sway (radians) and bob (units) at their peaks
+const DRIFT = { rate: 0.375, sway: 0.0125, bob: 0.02 };
+
+/**
+ * Gentle bob and sway of the galaxy plane, like drei's Float but driven by simulation time
+ */
+const Drift: React.FC<{ time: React.MutableRefObject<number>; enabled: boolean; children: React.ReactNode }> = ({ time, enabled, children }) => {
+  const ref = useRef<THREE.Group>(null!);
+
+  useFrame(() => {
+    const phase = time.current * DRIFT.rate;
+    const amount = enabled ? 1 : 0;
+    ref.current.rotation.set(Math.cos(phase) * DRIFT.sway * amount, Math.sin(phase) * DRIFT.sway * amount, Math.sin(phase) * DRIFT.sway * 0.4 * amount);
+    ref.current.position.y = Math.sin(phase) * DRIFT.bob * amount;
+  });
+
+  return <group ref={ref}>{children}</group>;
+};
+
+/**
+ * Shifts the projection up so whatever the camera looks at stays centered in the part of the canvas
+ * a bottom sheet leaves visible. Raycasting uses the same projection, so taps still line up.
+ */
+const ViewInset: React.FC<{ bottom: number }> = ({ bottom }) => {
+  const camera = useThree((state) => state.camera);
+  const size = useThree((state) => state.size);
+
+  useEffect(() => {
+    if (!(camera instanceof THREE.PerspectiveCamera)) return;
+    if (bottom > 0) {
+      camera.setViewOffset(size.width, size.height, 0, (size.height * bottom) / 2, size.width, size.height);
+    } else {
+      camera.clearViewOffset();
+    }
+  }, [camera, size, bottom]);
+
+  return null;
 };
 
 /**
- * Helper to calculate position on a spiral arm
+ * Twinkling backdrop; drei animates it on wall time, so this drives its shader from simulation time instead
  */
-const getSpiralPosition = (radius: number, branchIndex: number) => {
-    const spinAngle = radius * GALAXY_PARAMS.spin;
-    const branchAngle = ((branchIndex % GALAXY_PARAMS.branches) / GALAXY_PARAMS.branches) * Math.PI * 2;
-    const x = Math.cos(branchAngle + spinAngle) * radius;
-    const z = Math.sin(branchAngle + spinAngle) * radius;
-    return new THREE.Vector3(x, 0, z);
+const BackgroundStars: React.FC<{ count: number; time: React.MutableRefObject<number> }> = ({ count, time }) => {
+  const ref = useRef<THREE.Points>(null!);
+
+  // Runs after Stars' own frame callback, which writes zero at speed 0
+  useFrame(() => {
+    (ref.current.material as THREE.ShaderMaterial).uniforms.time.value = time.current * 0.5;
+  });
+
+  return <Stars ref={ref} radius={50} depth={50} count={count} factor={4} saturation={0} fade speed={0} />;
 };
 
 /**
- * Generates geometry data for a spiral galaxy
+ * Worker jobs for the galaxy's stars and dust.
+ * Lower tiers draw a prefix of the same seeded stream, so the galaxy only thins out.
  */
-const generateGalaxyData = (count: number, options = GALAXY_PARAMS) => {
-  const { radius, branches, spin, randomness, randomnessPower, insideColor, outsideColor } = options;
-  
-  const positions = new Float32Array(count * 3);
-  const colors = new Float32Array(count * 3);
-  
-  const colorInside = new THREE.Color(insideColor);
-  const colorOutside = new THREE.Color(outsideColor);
-
-  for (let i = 0; i < count; i++) {
-    const i3 = i * 3;
-    const r = Math.random() * radius;
-    const spinAngle = r * spin;
-    const branchAngle = ((i % branches) / branches) * Math.PI * 2;
-
-    const randomX = Math.pow(Math.random(), randomnessPower) * (Math.random() < 0.5 ? 1 : -1) * randomness * r;
-    const randomY = Math.pow(Math.random(), randomnessPower) * (Math.random() < 0.5 ? 1 : -1) * randomness * r;
-    const randomZ = Math.pow(Math.random(), randomnessPower) * (Math.random() < 0.5 ? 1 : -1) * randomness * r;
-
-    positions[i3] = Math.cos(branchAngle + spinAngle) * r + randomX;
-    positions[i3 + 1] = randomY;
-    positions[i3 + 2] = Math.sin(branchAngle + spinAngle) * r + randomZ;
-
-    const mixedColor = colorInside.clone();
-    mixedColor.lerp(colorOutside, r / radius);
-
-    mixedColor.r += (Math.random() - 0.5) * 0.05;
-    mixedColor.g += (Math.random() - 0.5) * 0.05;
-    mixedColor.b += (Math.random() - 0.5) * 0.05;
-
-    colors[i3] = mixedColor.r;
-    colors[i3 + 1] = mixedColor.g;
-    colors[i3 + 2] = mixedColor.b;
+export const galaxyJobs = (seed: number, params: GalaxyParams, particleScale: number): { main: GalaxyJob; dust: GalaxyJob } => ({
+  main: {
+    kind: 'galaxy',
+    count: Math.round(params.starCount * particleScale),
+    params,
+    seed,
+    stream: 'galaxy:main',
+  },
+  dust: {
+    kind: 'galaxy',
+    count: Math.round(params.dustCount * particleScale),
+    params: { ...params, randomness: params.dustRandomness, radius: params.dustRadius },
+    seed,
+    stream: 'galaxy:dust',
+  },
+});
+
+/**
+ * Worker job for the nebula clouds; `layers` sprites per cloud, from the quality tier
+ */
+const nebulaJob = (seed: number, params: GalaxyParams, layers: number): NebulaJob => ({
+  kind: 'nebula',
+  count: params.branches * NEBULAE_PER_ARM * layers,
+  params,
+  layers,
+  seed,
+  stream: 'nebulae',
+});
+
+/**
+ * Queues every buffer the scene needs at once, so loading progress covers all of them
+ */
+const preloadSceneBuffers = (seed: number, params: GalaxyParams, particleScale: number, nebulaLayers: number) => {
+  const { main, dust } = galaxyJobs(seed, params, particleScale);
+  loadBuffers(main);
+  loadBuffers(dust);
+  if (nebulaLayers > 0) loadBuffers(nebulaJob(seed, params, nebulaLayers));
+  for (const system of STAR_SYSTEMS) {
+    if (system.cloud) loadBuffers(cloudJob(system, system.cloud, seed, particleScale));
   }
+};
+
+/**
+ * Star geometry whose morph attributes start at `from`; stars beyond the old count start where they end
+ */
+const createStarGeometry = ({ positions, colors, radii }: GalaxyBuffers, from: GalaxyBuffers = { positions, colors, radii }) => {
+  const startAt = (current: Float32Array, previous: Float32Array) => {
+    if (previous === current) return current;
+    const start = current.slice();
+    start.set(previous.subarray(0, Math.min(previous.length, current.length)));
+    return start;
+  };
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  geometry.setAttribute('aRadius', new THREE.BufferAttribute(radii, 1));
+  geometry.setAttribute('aPositionFrom', new THREE.BufferAttribute(startAt(positions, from.positions), 3));
+  geometry.setAttribute('aColorFrom', new THREE.BufferAttribute(startAt(colors, from.colors), 3));
+  geometry.setAttribute('aRadiusFrom', new THREE.BufferAttribute(startAt(radii, from.radii), 1));
+  return geometry;
+};
 
-  return { positions, colors };
+/**
+ * Geometry for `buffers`, morphing from the previous buffers when the morphology changed.
+ * Other parameter changes swap the layout instantly, as before.
+ */
+const useGalaxyGeometry = (buffers: GalaxyBuffers, morphology: MorphologyId) => {
+  const shown = useRef<{ buffers: GalaxyBuffers; morphology: MorphologyId } | null>(null);
+
+  const geometry = useMemo(() => {
+    const previous = shown.current;
+    const morphing = previous !== null && previous.morphology !== morphology;
+    return { stars: createStarGeometry(buffers, morphing ? previous.buffers : undefined), morphing };
+  }, [buffers]);
+
+  // Recorded once committed, so a discarded render cannot swallow the morph
+  useEffect(() => {
+    shown.current = { buffers, morphology };
+    return () => geometry.stars.dispose();
+  }, [geometry]);
+  return geometry;
 };
 
-const Galaxy: React.FC<{ active: boolean; dimmed: boolean }> = ({ active, dimmed }) => {
-  const groupRef = useRef<THREE.Group>(null!);
-  const material1Ref = useRef<THREE.PointsMaterial>(null!);
-  const material2Ref = useRef<THREE.PointsMaterial>(null!);
+interface GalaxyProps {
+  dimmed: boolean;
+  seed: number;
+  params: GalaxyParams;
+  particleScale: number;
+  time: React.MutableRefObject<number>;
+  reducedMotion: boolean;
+}
 
-  const mainStars = useMemo(() => generateGalaxyData(20000, GALAXY_PARAMS), []);
-  const starDust = useMemo(() => generateGalaxyData(5000, { ...GALAXY_PARAMS, randomness: 0.8, radius: 8 }), []);
+const Galaxy: React.FC<GalaxyProps> = ({ dimmed, seed, params, particleScale, time, reducedMotion }) => {
+  const mainMaterial = useMemo(() => createGalaxyMaterial(0.015, 1.0), []);
+  const dustMaterial = useMemo(() => createGalaxyMaterial(0.04, 0.4), []);
+
+  const jobs = galaxyJobs(seed, params, particleScale);
+  const mainBuffers = useBuffers(jobs.main);
+  const dustBuffers = useBuffers(jobs.dust);
+  const main = useGalaxyGeometry(mainBuffers, params.morphology);
+  const dust = useGalaxyGeometry(dustBuffers, params.morphology);
+
+  // Restart the morph whenever a new layout arrives; reduced motion jumps straight to it
+  useEffect(() => {
+    if (main.morphing) mainMaterial.uniforms.uMorph.value = reducedMotion ? 1 : 0;
+  }, [main, mainMaterial, reducedMotion]);
+  useEffect(() => {
+    if (dust.morphing) dustMaterial.uniforms.uMorph.value = reducedMotion ? 1 : 0;
+  }, [dust, dustMaterial, reducedMotion]);
+  useEffect(() => () => {
+    mainMaterial.dispose();
+    dustMaterial.dispose();
+  }, [mainMaterial, dustMaterial]);
 
   useFrame((state, delta) => {
-    if (groupRef.current) {
-        const rotationSpeed = active ? 0.1 : 0.05; 
-        groupRef.current.rotation.y += delta * rotationSpeed;
-    }
+    // Matches PointsMaterial size attenuation
+    const scale = state.size.height * 0.5 * state.gl.getPixelRatio();
 
     // Smooth dimming when hovering the special star
     const targetOpacity1 = dimmed ? 0.1 : 1.0;
     const targetOpacity2 = dimmed ? 0.02 : 0.4;
-    
-    if (material1Ref.current) {
-        material1Ref.current.opacity = THREE.MathUtils.lerp(material1Ref.current.opacity, targetOpacity1, delta * 4);
-    }
-    if (material2Ref.current) {
-        material2Ref.current.opacity = THREE.MathUtils.lerp(material2Ref.current.opacity, targetOpacity2, delta * 4);
+
+    for (const [material, targetOpacity] of [[mainMaterial, targetOpacity1], [dustMaterial, targetOpacity2]] as const) {
+      material.uniforms.uTime.value = time.current * ORBIT_RATE;
+      material.uniforms.uScale.value = scale;
+      material.uniforms.uOpacity.value = THREE.MathUtils.lerp(material.uniforms.uOpacity.value, targetOpacity, delta * 4);
+      material.uniforms.uMorph.value = Math.min(material.uniforms.uMorph.value + delta / MORPH_DURATION, 1);
     }
   });
 
   return (
-    <group ref={groupRef} dispose={null} rotation={[0.2, 0, 0]}>
-      <Points positions={mainStars.positions} colors={mainStars.colors} stride={3} frustumCulled={false}>
-        <PointMaterial
-          ref={material1Ref}
-          transparent
-          vertexColors
-          size={0.015}
-          sizeAttenuation={true}
-          depthWrite={false}
-          blending={THREE.AdditiveBlending}
-        />
-      </Points>
-      <Points positions={starDust.positions} colors={starDust.colors} stride={3} frustumCulled={false}>
-        <PointMaterial
-          ref={material2Ref}
-          transparent
-          vertexColors
-          size={0.04}
-          sizeAttenuation={true}
-          depthWrite={false}
-          blending={THREE.AdditiveBlending}
-          opacity={0.4}
-        />
-      </Points>
+    <group dispose={null}>
+      <points geometry={main.stars} material={mainMaterial} frustumCulled={false} />
+      <points geometry={dust.stars} material={dustMaterial} frustumCulled={false} />
     </group>
   );
 };
 
-/**
- * A special star system embedded in the galaxy arm
- */
-const WisdomSystem: React.FC<{ active: boolean; onHover: (hovering: boolean) => void; isHovered: boolean }> = ({ active, onHover, isHovered }) => {
-    const groupRef = useRef<THREE.Group>(null!);
-    const ringsRef = useRef<THREE.Group>(null!);
-    const particlesRef = useRef<THREE.Group>(null!); // Ref for the particle cloud
-    
-    // Calculate a position exactly on the 2nd spiral arm, about halfway out
-    const initialPos = useMemo(() => getSpiralPosition(2.5, 1), []);
-
-    // Generate 10000 particles for the local cluster
-    const clusterPositions = useMemo(() => {
-        const count = 10000;
-        const positions = new Float32Array(count * 3);
-        const radius = 0.8; 
-
-        for (let i = 0; i < count; i++) {
-            const i3 = i * 3;
-            // Generate points in a sphere volume with density falling off from center
-            const r = Math.pow(Math.random(), 1.5) * radius; 
-            const theta = Math.random() * 2 * Math.PI;
-            const phi = Math.acos(2 * Math.random() - 1);
-
-            const x = r * Math.sin(phi) * Math.cos(theta);
-            const y = r * Math.sin(phi) * Math.sin(theta);
-            const z = r * Math.cos(phi);
-
-            positions[i3] = x;
-            positions[i3 + 1] = y;
-            positions[i3 + 2] = z;
-        }
-        return positions;
-    }, []);
-
-    useFrame((state, delta) => {
-        if (!groupRef.current) return;
-
-        const rotationSpeed = active ? 0.1 : 0.05;
-        
-        // 1. Orbit Logic: Sync with galaxy rotation
-        const angle = delta * rotationSpeed;
-        const x = groupRef.current.position.x;
-        const z = groupRef.current.position.z;
-        groupRef.current.position.x = x * Math.cos(angle) - z * Math.sin(angle);
-        groupRef.current.position.z = x * Math.sin(angle) + z * Math.cos(angle);
-
-        // 2. Local Animation: Rotate rings
-        if (ringsRef.current) {
-            ringsRef.current.rotation.z += delta * 0.2;
-            ringsRef.current.rotation.x += delta * 0.1;
-        }
-
-        // 3. Particle Swarm Animation (Rotation + Breathing)
-        if (particlesRef.current) {
-            // Slow rotation of the cloud to simulate orbit/swirl
-            particlesRef.current.rotation.y -= delta * 0.08; 
-            particlesRef.current.rotation.z += delta * 0.02;
-
-            // "Breathing" effect - subtle expansion and contraction
-            const breath = 1 + Math.sin(state.clock.elapsedTime * 0.8) * 0.05;
-            particlesRef.current.scale.setScalar(breath);
-        }
-
-        // 4. Entrance/Exit Animation
-        const targetScale = active ? 1 : 0.001;
-        const currentScale = groupRef.current.scale.x;
-        const newScale = THREE.MathUtils.lerp(currentScale, targetScale, delta * 3);
-        groupRef.current.scale.setScalar(newScale);
-    });
-
-    // Set initial position
-    useEffect(() => {
-        if (groupRef.current) {
-            groupRef.current.position.copy(initialPos);
-            const tilt = new THREE.Euler(0.2, 0, 0);
-            groupRef.current.position.applyEuler(tilt);
-        }
-    }, [initialPos]);
-
-    const handlePointerOver = (e: any) => {
-        e.stopPropagation();
-        if (!active) return;
-        onHover(true);
-        document.body.style.cursor = 'pointer';
-    };
-
-    const handlePointerOut = () => {
-        if (!active) return;
-        onHover(false);
-        document.body.style.cursor = 'auto';
-    };
-
-    const starColor = "#40E0D0"; // Turquoise/Cyan
-    const glowColor = "#00FFFF"; 
-
-    return (
-        <group ref={groupRef} scale={0.001}> 
-            <group 
-                onPointerOver={handlePointerOver} 
-                onPointerOut={handlePointerOut}
-                scale={isHovered ? 1.2 : 1}
-            >
-                {/* --- INVISIBLE HIT BOX --- 
-                    Crucial for better UX. A large transparent sphere that captures mouse events.
-                */}
-                <mesh visible={true}> 
-                    <sphereGeometry args={[1.4, 16, 16]} />
-                    <meshBasicMaterial transparent opacity={0} depthWrite={false} />
-                </mesh>
-
-                {/* The Star Core */}
-                <mesh>
-                    <sphereGeometry args={[0.08, 32, 32]} />
-                    <meshBasicMaterial color="#fff" toneMapped={false} />
-                </mesh>
-
-                {/* Primary Glow (Inner Halo) */}
-                <mesh>
-                    <sphereGeometry args={[0.15, 32, 32]} />
-                    <meshBasicMaterial 
-                        color={starColor} 
-                        transparent 
-                        opacity={0.8} 
-                        blending={THREE.AdditiveBlending} 
-                    />
-                </mesh>
-
-                {/* Tech Rings */}
-                <group ref={ringsRef}>
-                    <mesh rotation={[Math.PI / 2, 0, 0]}>
-                        <torusGeometry args={[0.3, 0.005, 16, 64]} />
-                        <meshBasicMaterial color={starColor} transparent opacity={0.4} blending={THREE.AdditiveBlending} />
-                    </mesh>
-                    <mesh rotation={[0, Math.PI / 4, 0]}>
-                        <torusGeometry args={[0.4, 0.005, 16, 64]} />
-                        <meshBasicMaterial color={starColor} transparent opacity={0.3} blending={THREE.AdditiveBlending} />
-                    </mesh>
-                </group>
-
-                {/* Local Cluster Particles (Animated Group) */}
-                <group ref={particlesRef}>
-                    <Points positions={clusterPositions} stride={3} frustumCulled={false}>
-                        <PointMaterial
-                            transparent
-                            color={starColor}
-                            size={0.02}
-                            sizeAttenuation={true}
-                            depthWrite={false}
-                            blending={THREE.AdditiveBlending}
-                            opacity={0.6}
-                        />
-                    </Points>
-                </group>
-
-  
-                {/* Label */}
-                <Html 
-                    position={[0.2, 0.2, 0]} 
-                    center 
-                    distanceFactor={8}
-                    style={{ 
-                        pointerEvents: 'none', 
-                        opacity: active ? 1 : 0,
-                        transition: 'opacity 0.5s',
-                        display: active ? 'block' : 'none'
-                    }}
-                >
-                    <div className={`flex flex-col items-start transition-all duration-300 ${isHovered ? 'scale-110' : 'scale-100 opacity-80'}`}>
-                        <div className="flex items-center gap-2">
-                            <div className={`h-[1px] transition-all duration-300 ${isHovered ? 'w-12 bg-cyan-400' : 'w-8 bg-white/50'}`}></div>
-                            <h1 className="text-lg font-bold text-white tracking-widest uppercase drop-shadow-[0_0_10px_rgba(64,224,208,0.8)]">
-                                Wisdom<span className="text-cyan-300">SQL</span>
-                            </h1>
-                        </div>
-                        {isHovered && (
-                            <p className="text-xs text-cyan-100/90 ml-14 max-w-[180px] leading-tight mt-1 font-light backdrop-blur-md bg-black/40 p-2 rounded border-l-2 border-cyan-400 shadow-[0_0_15px_rgba(0,255,255,0.2)]">
-                                Core Intelligence Node.<br/>Processing logic active.
-                            </p>
-                        )}
-                    </div>
-                </Html>
-            </group>
-        </group>
-    );
-};
+interface NebulaeProps {
+  dimmed: boolean;
+  seed: number;
+  params: GalaxyParams;
+  // Sprites per cloud, from the quality tier
+  layers: number;
+  time: React.MutableRefObject<number>;
+}
+
+// Peak brightness of the clouds, kept low because many sprites overlap additively
+const NEBULA_OPACITY = 0.35;
 
 /**
- * A golden star system with orbital rings and planets
+ * Nebula clouds along the arms, drawn as instanced noise sprites that orbit with the stars
  */
-const GoldenSystem: React.FC<{ active: boolean; onHover: (hovering: boolean) => void; isHovered: boolean }> = ({ active, onHover, isHovered }) => {
-    const groupRef = useRef<THREE.Group>(null!);
-    const ringsRef = useRef<THREE.Group>(null!);
-    const planetsRef = useRef<THREE.Group>(null!);
-
-    // Calculate position on a different spiral arm
-    const initialPos = useMemo(() => getSpiralPosition(3.2, 2), []);
-
-    // Generate orbital planets
-    const planetPositions = useMemo(() => {
-        const planets = [];
-        const numPlanets = 8;
-
-        for (let i = 0; i < numPlanets; i++) {
-            const angle = (i / numPlanets) * Math.PI * 2;
-            const radius = 0.4 + (i % 3) * 0.15; // Smaller orbital radii
-            const speed = 0.5 + (i % 2) * 0.3; // Varying speeds
-            const size = 0.008 + Math.random() * 0.006; // Much smaller planet sizes
-
-            planets.push({
-                angle,
-                radius,
-                speed,
-                size,
-                color: i % 2 === 0 ? '#FFA500' : '#FFD700' // Orange and gold colors
-            });
-        }
-
-        return planets;
-    }, []);
-
-    useFrame((state, delta) => {
-        if (!groupRef.current) return;
-
-        const rotationSpeed = active ? 0.12 : 0.08;
-
-        // 1. Orbit Logic: Sync with galaxy rotation
-        const angle = delta * rotationSpeed;
-        const x = groupRef.current.position.x;
-        const z = groupRef.current.position.z;
-        groupRef.current.position.x = x * Math.cos(angle) - z * Math.sin(angle);
-        groupRef.current.position.z = x * Math.sin(angle) + z * Math.cos(angle);
-
-        // 2. Local Animation: Rotate rings
-        if (ringsRef.current) {
-            ringsRef.current.rotation.y += delta * 0.15;
-            ringsRef.current.rotation.z += delta * 0.05;
-        }
-
-        // 3. Planetary System Animation
-        if (planetsRef.current) {
-            const time = state.clock.elapsedTime;
-
-            planetPositions.forEach((planet, i) => {
-                const planetMesh = planetsRef.current?.children[i];
-                if (planetMesh) {
-                    const currentAngle = planet.angle + time * planet.speed;
-                    planetMesh.position.x = Math.cos(currentAngle) * planet.radius;
-                    planetMesh.position.z = Math.sin(currentAngle) * planet.radius;
-                    planetMesh.position.y = Math.sin(currentAngle * 2) * 0.05; // Slight vertical oscillation
-                }
-            });
-        }
-
-        // 4. Entrance/Exit Animation
-        const targetScale = active ? 1 : 0.001;
-        const currentScale = groupRef.current.scale.x;
-        const newScale = THREE.MathUtils.lerp(currentScale, targetScale, delta * 3);
-        groupRef.current.scale.setScalar(newScale);
-    });
-
-    // Set initial position
-    useEffect(() => {
-        if (groupRef.current) {
-            groupRef.current.position.copy(initialPos);
-            const tilt = new THREE.Euler(0.15, 0, 0);
-            groupRef.current.position.applyEuler(tilt);
-        }
-    }, [initialPos]);
-
-    const handlePointerOver = (e: any) => {
-        e.stopPropagation();
-        if (!active) return;
-        onHover(true);
-        document.body.style.cursor = 'pointer';
-    };
-
-    const handlePointerOut = () => {
-        if (!active) return;
-        onHover(false);
-        document.body.style.cursor = 'auto';
-    };
-
-    const starColor = "#FFA500"; // Orange
-    const glowColor = "#FFD700"; // Gold
-
-    return (
-        <group ref={groupRef} scale={active ? 1 : 0.001}>
-            <group
-                onPointerOver={handlePointerOver}
-                onPointerOut={handlePointerOut}
-                scale={isHovered ? 1.3 : 1}
-            >
-                {/* DEBUG: VISIBLE HIT BOX */}
-                <mesh visible={true}>
-                    <sphereGeometry args={[0.6, 16, 16]} />
-                    <meshBasicMaterial color="#ffff00" transparent opacity={0.1} depthWrite={false} wireframe />
-                </mesh>
-
-                {/* The Golden Star Core - Brighter and Bigger */}
-                <mesh>
-                    <sphereGeometry args={[0.15, 32, 32]} />
-                    <meshBasicMaterial color="#fff" toneMapped={false} />
-                </mesh>
-
-                {/* Primary Glow (Inner Halo) - Smaller */}
-                <mesh>
-                    <sphereGeometry args={[0.18, 32, 32]} />
-                    <meshBasicMaterial
-                        color={starColor}
-                        transparent
-                        opacity={1.0}
-                        blending={THREE.AdditiveBlending}
-                    />
-                </mesh>
-
-                {/* Outer Gold Halo - Very Small */}
-                <mesh>
-                    <sphereGeometry args={[0.12, 32, 32]} />
-                    <meshBasicMaterial
-                        color={glowColor}
-                        transparent
-                        opacity={0.3}
-                        blending={THREE.AdditiveBlending}
-                    />
-                </mesh>
-
-                {/* Orbital Ring System - Smaller */}
-                <group ref={ringsRef}>
-                    <mesh rotation={[Math.PI / 3, 0, 0]}>
-                        <torusGeometry args={[0.4, 0.006, 16, 64]} />
-                        <meshBasicMaterial color={glowColor} transparent opacity={0.5} blending={THREE.AdditiveBlending} />
-                    </mesh>
-                    <mesh rotation={[0, Math.PI / 6, 0]}>
-                        <torusGeometry args={[0.5, 0.004, 16, 64]} />
-                        <meshBasicMaterial color={starColor} transparent opacity={0.4} blending={THREE.AdditiveBlending} />
-                    </mesh>
-                    <mesh rotation={[Math.PI / 4, Math.PI / 4, 0]}>
-                        <torusGeometry args={[0.6, 0.003, 16, 64]} />
-                        <meshBasicMaterial color={glowColor} transparent opacity={0.3} blending={THREE.AdditiveBlending} />
-                    </mesh>
-                </group>
-
-                {/* Planetary System */}
-                <group ref={planetsRef}>
-                    {planetPositions.map((planet, i) => (
-                        <mesh key={i}>
-                            <sphereGeometry args={[planet.size, 16, 16]} />
-                            <meshBasicMaterial
-                                color={planet.color}
-                                transparent
-                                opacity={0.9}
-                                toneMapped={false}
-                            />
-                        </mesh>
-                    ))}
-                </group>
-
-                {/* Label */}
-                <Html
-                    position={[0.3, 0.3, 0]}
-                    center
-                    distanceFactor={10}
-                    style={{
-                        pointerEvents: 'none',
-                        opacity: active ? 1 : 0,
-                        transition: 'opacity 0.5s',
-                        display: active ? 'block' : 'none'
-                    }}
-                >
-                    <div className={`flex flex-col items-start transition-all duration-300 ${isHovered ? 'scale-110' : 'scale-100 opacity-80'}`}>
-                        <div className="flex items-center gap-2">
-                            <div className={`h-[1px] transition-all duration-300 ${isHovered ? 'w-12 bg-orange-400' : 'w-8 bg-white/50'}`}></div>
-                            <h1 className="text-lg font-bold text-white tracking-widest uppercase drop-shadow-[0_0_10px_rgba(255,165,0,0.8)]">
-                                Golden<span className="text-orange-300">System</span>
-                            </h1>
-                        </div>
-                        {isHovered && (
-                            <p className="text-xs text-orange-100/90 ml-14 max-w-[180px] leading-tight mt-1 font-light backdrop-blur-md bg-black/40 p-2 rounded border-l-2 border-orange-400 shadow-[0_0_15px_rgba(255,165,0,0.2)]">
-                                Planetary system active.<br/>Multiple celestial bodies.
-                            </p>
-                        )}
-                    </div>
-                </Html>
-            </group>
-        </group>
-    );
-};
-
-const CameraRig: React.FC<{ active: boolean; focusTarget: string }> = ({ active, focusTarget }) => {
-    const { camera, mouse } = useThree();
-    const targetPos = new THREE.Vector3();
-    const lookAtPos = new THREE.Vector3();
-
-    useFrame((state, delta) => {
-        if (active) {
-            // If hovering any star system, camera drifts slightly closer
-            if (focusTarget === 'wisdom') {
-                targetPos.set(-1, 1.2, 3.8); // Slightly offset for WisdomSQL
-            } else if (focusTarget === 'golden') {
-                targetPos.set(1, 1.0, 4.0); // Slightly offset for Golden System
-            } else {
-                // Normal Explore Mode
-                targetPos.set(0, 1.5, 3.5);
-            }
-
-            targetPos.x += mouse.x * 0.1; // Reduced mouse influence since we have OrbitControls
-            targetPos.y += mouse.y * 0.1;
-
-            camera.position.lerp(targetPos, delta * 0.4); // Slower lerp for smoother experience
-
-            // Smooth look at
-            lookAtPos.set(0, 0, 0);
-            camera.lookAt(lookAtPos);
-        } else {
-            // Orbit Mode
-            targetPos.set(mouse.x * 5, mouse.y * 2 + 6, 12);
-            camera.position.lerp(targetPos, delta * 0.8);
-            camera.lookAt(0, 0, 0);
-        }
-    });
-
-    return null;
-}
+const Nebulae: React.FC<NebulaeProps> = ({ dimmed, seed, params, layers, time }) => {
+  const material = useMemo(() => createNebulaMaterial(NEBULA_OPACITY), []);
+
+  const { centers, colors, sizes, rotations, seeds } = useBuffers(nebulaJob(seed, params, layers));
+
+  const geometry = useMemo(() => {
+    const sprite = new THREE.PlaneGeometry(1, 1);
+    const instanced = new THREE.InstancedBufferGeometry();
+    instanced.index = sprite.index;
+    instanced.setAttribute('position', sprite.getAttribute('position'));
+    instanced.setAttribute('aCenter', new THREE.InstancedBufferAttribute(centers, 3));
+    instanced.setAttribute('aColor', new THREE.InstancedBufferAttribute(colors, 3));
+    instanced.setAttribute('aSize', new THREE.InstancedBufferAttribute(sizes, 1));
+    instanced.setAttribute('aRotation', new THREE.InstancedBufferAttribute(rotations, 1));
+    instanced.setAttribute('aSeed', new THREE.InstancedBufferAttribute(seeds, 1));
+    instanced.instanceCount = sizes.length;
+    return instanced;
+  }, [centers, colors, sizes, rotations, seeds]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => material.dispose(), [material]);
+
+  useFrame((_, delta) => {
+    material.uniforms.uTime.value = time.current * ORBIT_RATE;
+    const targetOpacity = dimmed ? NEBULA_OPACITY * 0.2 : NEBULA_OPACITY;
+    material.uniforms.uOpacity.value = THREE.MathUtils.lerp(material.uniforms.uOpacity.value, targetOpacity, delta * 4);
+  });
 
-export const Scene: React.FC<SceneProps> = ({ active }) => {
-  const [hoveringWisdom, setHoveringWisdom] = useState(false);
-  const [hoveringGolden, setHoveringGolden] = useState(false);
+  return <mesh geometry={geometry} material={material} frustumCulled={false} raycast={() => null} />;
+};
 
-  const getCurrentFocus = () => {
-    if (hoveringWisdom) return 'wisdom';
-    if (hoveringGolden) return 'golden';
-    return '';
-  };
+export const Scene: React.FC<SceneProps> = ({
+  active,
+  seed,
+  galaxy,
+  selectedId,
+  onSelect,
+  keyboardFocusId,
+  highlights,
+  initialPose,
+  cameraRef,
+  tour,
+  onTourAdvance,
+  simulation,
+  time,
+  quality,
+  effects,
+  onQualityStep,
+  statsRef,
+  reducedMotion,
+  fadeRef,
+  touch,
+  gyroscope,
+  bottomInset,
+  captureRef,
+}) => {
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const settings = QUALITY_TIERS[quality];
+  const postEffects = activeEffects(effects, settings);
+
+  // Not during render: queuing jobs starts the worker and updates the loading screen
+  useEffect(() => {
+    preloadSceneBuffers(seed, galaxy, settings.particleScale, settings.nebulaLayers);
+  }, [seed, galaxy, settings.particleScale, settings.nebulaLayers]);
+
+  const cameraMode: CameraMode = !active ? 'hero-orbit'
+    : tour ? 'touring'
+    : selectedId ? 'focusing'
+    : 'free-explore';
+
+  const handleHover = useCallback((id: string, hovering: boolean) => {
+    setHoveredId((current) => (hovering ? id : current === id ? null : current));
+  }, []);
+
+  const focusedId = selectedId ?? hoveredId ?? keyboardFocusId;
+  const neighbors = active ? linkedSystems(hoveredId ?? keyboardFocusId) : [];
 
   return (
     <Canvas
-      camera={{ position: [0, 6, 12], fov: 50 }}
+      camera={{ position: [0, 6, 12], fov: CAMERA_FOV }}
       gl={{
         antialias: true,
         powerPreference: "high-performance",
       }}
-      dpr={[1, 2]}
+      dpr={[1, settings.maxDpr]}
       frameloop="always"
+      // With no hover on touch screens, tapping empty space is how a selection is dismissed
+      onPointerMissed={(e: PointerEvent) => e.pointerType === 'touch' && selectedId && onSelect(null)}
     >
       <color attach="background" args={['#030305']} />
+      <SimulationClock active={active} reducedMotion={reducedMotion} playback={simulation} time={time} />
 
-      <Float speed={1.5} rotationIntensity={0.1} floatIntensity={0.2}>
-         {/* Pass hover state to Galaxy to trigger dimming */}
-         <Galaxy active={active} dimmed={hoveringWisdom || hoveringGolden} />
-
-         {/* The Special Embedded Star System */}
-         <WisdomSystem active={active} onHover={setHoveringWisdom} isHovered={hoveringWisdom} />
-
-         {/* The New Golden Star System */}
-         <GoldenSystem active={active} onHover={setHoveringGolden} isHovered={hoveringGolden} />
-      </Float>
+      {onQualityStep && (
+        <PerformanceMonitor
+          flipflops={3}
+          onIncline={() => onQualityStep(1)}
+          onDecline={() => onQualityStep(-1)}
+        />
+      )}
+      {statsRef && <StatsProbe statsRef={statsRef} />}
+      <CaptureBridge captureRef={captureRef} />
+      <Soundscape seed={seed} time={time} focusedId={active ? focusedId : null} />
+      <ViewInset bottom={bottomInset} />
+      {Object.values(postEffects).some(Boolean) && (
+        <PostEffects effects={postEffects} focusId={active ? focusedId : null} time={time} reducedMotion={reducedMotion} />
+      )}
+
+      <Drift time={time} enabled={!reducedMotion}>
+       {/* Galaxy and systems share one tilted plane so systems stay on their arms */}
+       <group rotation={[GALAXY_TILT, 0, 0]}>
+         {/* Pass hover/selection state to Galaxy to trigger dimming, unless depth of field blurs it instead */}
+         <Galaxy
+           dimmed={focusedId !== null && !postEffects.depthOfField}
+           seed={seed}
+           params={galaxy}
+           particleScale={settings.particleScale}
+           time={time}
+           reducedMotion={reducedMotion}
+         />
+         {settings.nebulaLayers > 0 && (
+           <Nebulae
+             dimmed={focusedId !== null && !postEffects.depthOfField}
+             seed={seed}
+             params={galaxy}
+             layers={settings.nebulaLayers}
+             time={time}
+           />
+         )}
+
+         {/* Star systems embedded in the arms, one per registry entry */}
+         {STAR_SYSTEMS.map((system) => (
+           <StarSystem
+             key={system.id}
+             system={system}
+             seed={seed}
+             galaxy={galaxy}
+             time={time}
+             quality={settings}
+             bloom={postEffects.bloom}
+             active={active}
+             isHovered={hoveredId === system.id}
+             isSelected={selectedId === system.id}
+             isFocused={active && keyboardFocusId === system.id}
+             isLinked={neighbors.includes(system.id)}
+             highlights={highlights}
+             reducedMotion={reducedMotion}
+             touch={touch}
+             onHover={handleHover}
+             onSelect={onSelect}
+           />
+         ))}
+
+         {/* Relationship arcs between systems, following them as they orbit */}
+         <RelationshipLinks
+           active={active}
+           time={time}
+           focusedId={active ? focusedId : null}
+           particleScale={settings.particleScale}
+           bloom={postEffects.bloom}
+         />
+       </group>
+      </Drift>
 
       {/* Background stars also fade when focusing on WisdomSQL */}
       <group>
-         <Stars radius={50} depth={50} count={3000} factor={4} saturation={0} fade speed={0.5} />
+         <BackgroundStars count={settings.backgroundStars} time={time} />
       </group>
 
-      <OrbitControls
-        enablePan={false}
-        enableZoom={true}
-        minDistance={5}
-        maxDistance={20}
-        maxPolarAngle={Math.PI * 0.8}
-        minPolarAngle={Math.PI * 0.2}
-        enableDamping
-        dampingFactor={0.05}
-        rotateSpeed={0.5}
+      <CameraController
+        mode={cameraMode}
+        systemId={selectedId}
+        tour={tour}
+        homePose={initialPose ?? EXPLORE_POSE}
+        initialPose={initialPose}
+        controllerRef={cameraRef}
+        onTourAdvance={onTourAdvance}
+        reducedMotion={reducedMotion}
+        fadeRef={fadeRef}
+        gyroscope={gyroscope}
       />
-
-      <CameraRig active={active} focusTarget={getCurrentFocus()} />
       
       <fog attach="fog" args={['#030305', 8, 30]} />
       <ambientLight intensity={0.5} />
-      
-      {/* Dynamic lighting for WisdomSQL when active */}
-      <pointLight
-        position={[2, 1, 2]}
-        color="#40E0D0"
-        intensity={active && hoveringWisdom ? 3 : 0}
-        distance={8}
-        decay={2}
-      />
-
-      {/* Dynamic lighting for Golden System when active */}
-      <pointLight
-        position={[-2, 1.5, 1]}
-        color="#FFA500"
-        intensity={active && hoveringGolden ? 4 : 0}
-        distance={10}
-        decay={2}
-      />
     </Canvas>
   );
 };
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import { retryFailedBuffers } from '../utils/bufferCache';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface BoundaryProps {
+  fallback: React.ReactNode;
+  children: React.ReactNode;
+}
+
+interface BoundaryState {
+  failed: boolean;
+}
+
+/**
+ * Shows `fallback` once anything below throws; remount it (new key) to try again
+ */
+class Boundary extends React.Component<BoundaryProps, BoundaryState> {
+  // React's types are inferred from its JavaScript here, which leaves out the props field
+  declare readonly props: Readonly<BoundaryProps>;
+  state: BoundaryState = { failed: false };
+
+  static getDerivedStateFromError(): BoundaryState {
+    return { failed: true };
+  }
+
+  render() {
+    return this.state.failed ? this.props.fallback : this.props.children;
+  }
+}
+
+const SceneError: React.FC<{ onRetry: () => void }> = ({ onRetry }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div role="alert" className="flex flex-col items-center justify-center gap-4 w-full h-full text-white">
+      <div className="flex items-center gap-2 text-sm font-light tracking-widest uppercase">
+        <AlertTriangle className="w-5 h-5 text-red-400" /> {t('app.sceneFailed')}
+      </div>
+      <button
+        onClick={onRetry}
+        className="flex items-center gap-2 px-4 py-2 rounded-full border border-white/20 text-xs uppercase tracking-wider hover:bg-white/10 transition-colors"
+      >
+        <RotateCcw className="w-3.5 h-3.5" /> {t('app.retry')}
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Catches failures while building the scene, e.g. a buffer worker that could not start or ran out of
+ * memory, and offers a retry instead of leaving the page blank
+ */
+export const SceneErrorBoundary: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [attempt, setAttempt] = useState(0);
+
+  const handleRetry = () => {
+    retryFailedBuffers();
+    setAttempt((count) => count + 1);
+  };
+
+  return (
+    <Boundary key={attempt} fallback={<SceneError onRetry={handleRetry} />}>
+      {children}
+    </Boundary>
+  );
+};
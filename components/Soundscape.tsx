@@ -0,0 +1,61 @@
+import React, { useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { STAR_SYSTEMS } from '../data/starSystems';
+import { generatePlanets, orbitPhase } from '../utils/kepler';
+import { getAudioState, pluck, setDroneDistance, setSystemLevel, subscribeAudio } from '../utils/audio';
+
+interface SoundscapeProps {
+  seed: number;
+  time: React.MutableRefObject<number>;
+  // Hovered, focused or selected system, whose signature is heard
+  focusedId: string | null;
+}
+
+// Camera movement smaller than this leaves the drone alone
+const DRONE_STEP = 0.05;
+
+const VOICES = STAR_SYSTEMS.flatMap((system) => (system.sound ? [{ system, sound: system.sound }] : []));
+
+/**
+ * Drives the Web Audio soundscape from the scene: drone timbre from camera distance,
+ * system signatures from focus, and a pluck for each planet passing periapsis
+ */
+export const Soundscape: React.FC<SoundscapeProps> = ({ seed, time, focusedId }) => {
+  const { unlocked } = useSyncExternalStore(subscribeAudio, getAudioState);
+  const lastDistance = useRef(-1);
+  // Completed orbits per planet at the last frame
+  const orbitCounts = useRef(new Map<string, number>());
+
+  const plucking = useMemo(
+    () => VOICES
+      .filter(({ sound }) => sound.kind === 'pluck')
+      .map(({ system, sound }) => ({ id: system.id, sound, planets: generatePlanets(system, seed) })),
+    [seed]
+  );
+
+  // Voices and the drone only exist once audio is unlocked, so both are reapplied then
+  useEffect(() => {
+    VOICES.forEach(({ system, sound }) => setSystemLevel(system.id, sound, focusedId === system.id ? 1 : 0));
+    lastDistance.current = -1;
+  }, [focusedId, unlocked]);
+
+  useFrame(({ camera }) => {
+    const distance = camera.position.length();
+    if (Math.abs(distance - lastDistance.current) > DRONE_STEP) {
+      lastDistance.current = distance;
+      setDroneDistance(distance);
+    }
+
+    plucking.forEach(({ id, sound, planets }) => {
+      planets.forEach((planet, i) => {
+        const count = Math.floor(orbitPhase(planet.orbit, time.current));
+        const last = orbitCounts.current.get(planet.id);
+        orbitCounts.current.set(planet.id, count);
+        // Exactly one orbit on; scrubbing and fast playback skip ahead silently
+        if (focusedId === id && last !== undefined && count === last + 1) pluck(id, sound, i);
+      });
+    });
+  });
+
+  return null;
+};
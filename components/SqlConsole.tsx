@@ -0,0 +1,213 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Database, History, Play, X } from 'lucide-react';
+import { SqlResult, SqlTokenType, SqlValue, executeQuery, tokenize } from '../utils/sql';
+import { DEFAULT_QUERY, SAMPLE_QUERIES, createSampleDatabase, loadQueryHistory, pushQueryHistory } from '../utils/wisdomDb';
+import { errorMessage } from '../utils/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface SqlConsoleProps {
+  seed: number;
+  // Scene objects (system and planet ids) behind the latest result; empty to clear
+  onHighlight: (objects: string[]) => void;
+}
+
+const TOKEN_CLASSES: Partial<Record<SqlTokenType, string>> = {
+  keyword: 'text-accent-400 font-bold',
+  function: 'text-cyan-300',
+  string: 'text-green-300',
+  number: 'text-orange-300',
+  operator: 'text-pink-300',
+  comment: 'text-gray-500 italic',
+  unknown: 'text-red-400 underline decoration-wavy',
+};
+
+// Shared by the textarea and the highlighted copy underneath, which must line up character for character
+const editorText = 'font-mono text-xs leading-5 whitespace-pre-wrap break-words p-2';
+
+const formatValue = (value: SqlValue) => (value === null ? 'NULL' : String(value));
+
+/**
+ * SQL editor over a sample database of the scene's own systems and planets.
+ * Rows in the latest result are highlighted in the 3D scene.
+ */
+export const SqlConsole: React.FC<SqlConsoleProps> = ({ seed, onHighlight }) => {
+  const { t } = useTranslation();
+  const database = useMemo(() => createSampleDatabase(seed), [seed]);
+  const [query, setQuery] = useState(DEFAULT_QUERY);
+  const [result, setResult] = useState<{ data: SqlResult; ms: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState(loadQueryHistory);
+  const [showHistory, setShowHistory] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const highlightRef = useRef<HTMLPreElement>(null);
+
+  const highlight = (objects: string[]) => {
+    setHighlighted(objects.length);
+    onHighlight(objects);
+  };
+
+  // Highlights go away with the console
+  useEffect(() => () => onHighlight([]), [onHighlight]);
+
+  // Planet rows change with the seed, so stale results and highlights are dropped
+  useEffect(() => {
+    setResult(null);
+    setHighlighted(0);
+    onHighlight([]);
+  }, [database, onHighlight]);
+
+  const run = (sql = query) => {
+    if (!sql.trim()) return;
+    const start = performance.now();
+    try {
+      const data = executeQuery(database, sql);
+      setResult({ data, ms: performance.now() - start });
+      setError(null);
+      highlight(data.objects);
+    } catch (err) {
+      setResult(null);
+      setError(errorMessage(err, t, 'sql.failed'));
+      highlight([]);
+    }
+    setHistory(pushQueryHistory(sql.trim()));
+  };
+
+  const load = (sql: string) => {
+    setQuery(sql);
+    setShowHistory(false);
+    run(sql);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      run();
+    }
+  };
+
+  const tokens = useMemo(() => tokenize(query), [query]);
+
+  return (
+    <section className="space-y-3 border-t border-white/10 pt-6 text-xs text-gray-300">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 uppercase tracking-wider font-medium text-white">
+          <Database className="w-4 h-4 text-accent-400" /> {t('sql.title')}
+        </h3>
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          aria-expanded={showHistory}
+          title={t('sql.history')}
+          aria-label={t('sql.history')}
+          className={`p-1.5 rounded-full border transition-colors ${showHistory ? 'border-accent-400/60 text-white' : 'border-white/10 text-gray-400 hover:text-white'}`}
+        >
+          <History className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {/* Schema */}
+      <div className="font-mono text-[10px] text-gray-500 space-y-0.5">
+        {Object.keys(database).map((name) => (
+          <div key={name}>
+            <span className="text-gray-300">{name}</span>({database[name].columns.join(', ')})
+          </div>
+        ))}
+      </div>
+
+      {/* History */}
+      {showHistory && (
+        <ul className="max-h-32 overflow-y-auto rounded-lg bg-white/5 border border-white/10 divide-y divide-white/5">
+          {history.length === 0 && <li className="px-2 py-1.5 text-gray-500">{t('sql.noHistory')}</li>}
+          {history.map((entry) => (
+            <li key={entry}>
+              <button onClick={() => load(entry)} className="w-full px-2 py-1.5 text-left font-mono truncate hover:bg-white/10 hover:text-white transition-colors">
+                {entry.replace(/\s+/g, ' ')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Editor: a transparent textarea over its own syntax-highlighted copy */}
+      <div className="relative rounded-lg bg-black/60 border border-white/10 focus-within:border-accent-400/60 transition-colors">
+        <pre ref={highlightRef} aria-hidden="true" className={`${editorText} absolute inset-0 m-0 overflow-hidden pointer-events-none text-white`}>
+          {tokens.map((token) => (
+            <span key={token.start} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+          ))}
+          {/* Keeps a trailing newline from collapsing */}
+          {'\n'}
+        </pre>
+        <textarea
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onScroll={(e) => highlightRef.current?.scrollTo(0, e.currentTarget.scrollTop)}
+          rows={5}
+          spellCheck={false}
+          aria-label={t('sql.editor')}
+          className={`${editorText} relative block w-full resize-y bg-transparent text-transparent caret-white outline-none`}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => run()}
+          title={t('sql.runHint')}
+          className="flex items-center gap-1.5 px-3 py-1 rounded-full bg-white text-black font-bold hover:scale-105 active:scale-95 transition-transform"
+        >
+          <Play className="w-3 h-3 fill-black" /> {t('sql.run')}
+        </button>
+        {SAMPLE_QUERIES.map(({ id, sql }) => (
+          <button
+            key={id}
+            onClick={() => load(sql)}
+            className="px-2.5 py-1 rounded-full border border-white/10 text-gray-400 hover:text-white hover:border-white/40 transition-colors"
+          >
+            {t(`sql.example.${id}`)}
+          </button>
+        ))}
+      </div>
+
+      {/* Result */}
+      {error && <p role="alert" className="font-mono text-red-400">{error}</p>}
+      {result && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-[10px] text-gray-500">
+            <span>{t('sql.summary', { count: result.data.rows.length, ms: result.ms.toFixed(1) })}</span>
+            {highlighted > 0 && (
+              <button onClick={() => highlight([])} title={t('sql.clearHighlight')} className="flex items-center gap-1 hover:text-white transition-colors">
+                {t('sql.highlighted', { count: highlighted })} <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+          <div className="max-h-56 overflow-auto rounded-lg border border-white/10">
+            <table className="w-full font-mono text-[11px]">
+              <thead className="sticky top-0 bg-black/90 text-gray-400">
+                <tr>
+                  {result.data.columns.map((column, i) => (
+                    <th key={i} scope="col" className="px-2 py-1 text-left font-medium whitespace-nowrap">{column}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {result.data.rows.length === 0 && (
+                  <tr>
+                    <td colSpan={result.data.columns.length} className="px-2 py-2 text-gray-500">{t('sql.noRows')}</td>
+                  </tr>
+                )}
+                {result.data.rows.map((row, i) => (
+                  <tr key={i} className="border-t border-white/5 hover:bg-white/5">
+                    {row.map((value, j) => (
+                      <td key={j} className={`px-2 py-1 whitespace-nowrap ${value === null ? 'text-gray-600' : typeof value === 'number' ? 'text-orange-300 text-right' : 'text-white'}`}>
+                        {formatValue(value)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
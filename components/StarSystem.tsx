@@ -0,0 +1,511 @@
+import React, { useRef, useMemo, useEffect, useLayoutEffect, useState } from 'react';
+import { ThreeEvent, useFrame, useThree } from '@react-three/fiber';
+import { Points, PointMaterial, Html, Billboard } from '@react-three/drei';
+import * as THREE from 'three';
+import { StarSystemDefinition, ParticleCloudSpec, Planet, PlanetSpec, GalaxyParams, QualitySettings, CloudJob, BlackHoleSpec } from '../types';
+import { MORPH_DURATION, ORBIT_RATE, getOrbitalPosition } from '../utils/galaxy';
+import { BLOOM_BOOST } from '../utils/effects';
+import { TOUCH_HIT_SCALE } from '../utils/touch';
+import { generatePlanets, orbitPhase, orbitPosition } from '../utils/kepler';
+import { createOrbitTrailMaterial } from '../shaders/orbitTrailMaterial';
+import { BLACK_HOLE_BOUND, createBlackHoleMaterial } from '../shaders/blackHoleMaterial';
+import { useBuffers } from '../hooks/useBuffers';
+import { useTranslation } from '../hooks/useTranslation';
+import { localizeSystem } from '../utils/i18n';
+
+interface StarSystemProps {
+  system: StarSystemDefinition;
+  seed: number;
+  galaxy: GalaxyParams;
+  // Shared simulation clock, in seconds; every animation here is a function of it
+  time: React.MutableRefObject<number>;
+  quality: QualitySettings;
+  // Real bloom is on, so cores and rings glow through HDR color instead of stacked halos
+  bloom: boolean;
+  active: boolean;
+  isHovered: boolean;
+  isSelected: boolean;
+  // Keyboard focus, drawn as a ring around the hit area
+  isFocused: boolean;
+  // Shares a relationship edge with the hovered or keyboard-focused system
+  isLinked: boolean;
+  // Ids picked out by a WisdomSQL query; may name this system or its planets
+  highlights: string[];
+  reducedMotion: boolean;
+  // Touch screen: taps select directly and the hit area grows to fit a finger
+  touch: boolean;
+  onHover: (id: string, hovering: boolean) => void;
+  onSelect: (id: string) => void;
+}
+
+/**
+ * Name of the system's root object, so the camera can look it up in the scene graph
+ */
+export const starSystemObjectName = (id: string) => `star-system:${id}`;
+
+/**
+ * Worker job for a system's particle cloud; lower tiers take a prefix of the same seeded stream
+ */
+export const cloudJob = (system: StarSystemDefinition, cloud: ParticleCloudSpec, seed: number, particleScale: number): CloudJob => ({
+    kind: 'cloud',
+    count: Math.round(cloud.count * particleScale),
+    cloud,
+    seed,
+    stream: `${system.id}:cloud`,
+});
+
+const ClusterParticles: React.FC<{ job: CloudJob; color: string }> = ({ job, color }) => {
+    const { positions } = useBuffers<CloudJob>(job);
+
+    return (
+        <Points positions={positions} stride={3} frustumCulled={false}>
+            <PointMaterial
+                transparent
+                color={color}
+                size={job.cloud.size}
+                sizeAttenuation={true}
+                depthWrite={false}
+                blending={THREE.AdditiveBlending}
+                opacity={job.cloud.opacity}
+            />
+        </Points>
+    );
+};
+
+interface FocusIndicatorProps {
+  radius: number;
+  color: string;
+  pulse: boolean;
+  // Shared simulation clock, so the pulse pauses and reverses with everything else
+  time: React.MutableRefObject<number>;
+}
+
+/**
+ * Pulsing camera-facing ring marking the keyboard-focused system
+ */
+const FocusIndicator: React.FC<FocusIndicatorProps> = ({ radius, color, pulse, time }) => {
+    const materialRef = useRef<THREE.MeshBasicMaterial>(null!);
+
+    useFrame(() => {
+        materialRef.current.opacity = pulse ? 0.6 + Math.sin(time.current * 4) * 0.3 : 0.8;
+    });
+
+    return (
+        <Billboard>
+            <mesh>
+                <ringGeometry args={[radius * 1.15, radius * 1.22, 64]} />
+                <meshBasicMaterial ref={materialRef} color={color} transparent depthWrite={false} toneMapped={false} />
+            </mesh>
+        </Billboard>
+    );
+};
+
+interface BlackHoleProps {
+  spec: BlackHoleSpec;
+  time: React.MutableRefObject<number>;
+  // Galaxy colors, so the disk glows like the stars around it
+  insideColor: string;
+  outsideColor: string;
+  // Raymarching steps; 0 draws a flat disk with no lensing
+  steps: number;
+  bloom: boolean;
+}
+
+/**
+ * Event horizon and accretion disk, raymarched inside a bounding sphere (see blackHoleMaterial)
+ */
+const BlackHole: React.FC<BlackHoleProps> = ({ spec, time, insideColor, outsideColor, steps, bloom }) => {
+    const meshRef = useRef<THREE.Mesh>(null!);
+    const material = useMemo(() => createBlackHoleMaterial(spec, steps), [spec, steps]);
+
+    useEffect(() => () => material.dispose(), [material]);
+
+    useEffect(() => {
+        material.uniforms.uInsideColor.value.set(insideColor);
+        material.uniforms.uOutsideColor.value.set(outsideColor);
+        material.uniforms.uBoost.value = bloom ? BLOOM_BOOST : 1;
+    }, [material, insideColor, outsideColor, bloom]);
+
+    useFrame(({ camera }) => {
+        material.uniforms.uTime.value = time.current;
+        // Rays are traced in the sphere's own frame, where the disk lies flat
+        meshRef.current.worldToLocal(material.uniforms.uCamera.value.copy(camera.position));
+    });
+
+    // Drawn after the galaxy so the horizon blots out the stars behind it
+    return (
+        <group rotation={[spec.tilt, 0, 0]}>
+            <mesh ref={meshRef} material={material} renderOrder={1} raycast={() => null}>
+                <sphereGeometry args={[spec.disk[1] * BLACK_HOLE_BOUND, 32, 32]} />
+            </mesh>
+        </group>
+    );
+};
+
+// Vertices per orbit trail
+const TRAIL_SEGMENTS = 96;
+// Pointer distance in CSS pixels within which a planet counts as hovered; the spheres themselves are tiny
+const PLANET_HIT_PIXELS = 14;
+// Hovered planets swell so they read as picked
+const PLANET_HOVER_SCALE = 1.8;
+
+/**
+ * Every orbit as one set of line segments; the trail material fades each one in behind its planet
+ */
+const createTrailGeometry = (planets: Planet[]) => {
+    const vertexCount = planets.length * TRAIL_SEGMENTS * 2;
+    const positions = new Float32Array(vertexCount * 3);
+    const colors = new Float32Array(vertexCount * 3);
+    const phases = new Float32Array(vertexCount);
+    const starts = new Float32Array(vertexCount);
+    const periods = new Float32Array(vertexCount);
+    const point = new THREE.Vector3();
+    const color = new THREE.Color();
+
+    let vertex = 0;
+    for (const { orbit, color: hex } of planets) {
+        color.set(hex);
+        for (let i = 0; i < TRAIL_SEGMENTS; i++) {
+            // Each segment runs from sample i to i + 1, closing the loop at the end
+            for (const sample of [i, i + 1]) {
+                const phase = sample / TRAIL_SEGMENTS;
+                orbitPosition(orbit, phase, point).toArray(positions, vertex * 3);
+                color.toArray(colors, vertex * 3);
+                phases[vertex] = phase;
+                starts[vertex] = orbit.phase;
+                periods[vertex] = orbit.period;
+                vertex++;
+            }
+        }
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    geometry.setAttribute('aPhase', new THREE.BufferAttribute(phases, 1));
+    geometry.setAttribute('aStart', new THREE.BufferAttribute(starts, 1));
+    geometry.setAttribute('aPeriod', new THREE.BufferAttribute(periods, 1));
+    return geometry;
+};
+
+interface PlanetarySystemProps {
+  planets: Planet[];
+  spec: PlanetSpec;
+  // Filled with each planet's current position every frame, for hover picking
+  positions: THREE.Vector3[];
+  time: React.MutableRefObject<number>;
+  segments: number;
+  hovered: number | null;
+  // Planets matched by a console query, drawn enlarged and labeled
+  matched: boolean[];
+}
+
+/**
+ * Planets on Keplerian orbits, drawn as one instanced mesh, with fading orbit trails.
+ * The hovered planet and any matched by a query are labeled.
+ */
+const PlanetarySystem: React.FC<PlanetarySystemProps> = ({ planets, spec, positions, time, segments, hovered, matched }) => {
+    const meshRef = useRef<THREE.InstancedMesh>(null!);
+    const labelRefs = useRef<(THREE.Group | null)[]>([]);
+    const { t } = useTranslation();
+    const trailGeometry = useMemo(() => createTrailGeometry(planets), [planets]);
+    const trailMaterial = useMemo(() => createOrbitTrailMaterial(spec.trail, 0.35), [spec.trail]);
+    const matrix = useMemo(() => new THREE.Matrix4(), []);
+    const rotation = useMemo(() => new THREE.Quaternion(), []);
+    const scale = useMemo(() => new THREE.Vector3(), []);
+
+    useEffect(() => () => trailGeometry.dispose(), [trailGeometry]);
+    useEffect(() => () => trailMaterial.dispose(), [trailMaterial]);
+
+    useLayoutEffect(() => {
+        const color = new THREE.Color();
+        planets.forEach((planet, i) => meshRef.current.setColorAt(i, color.set(planet.color)));
+        if (meshRef.current.instanceColor) meshRef.current.instanceColor.needsUpdate = true;
+    }, [planets]);
+
+    useFrame(() => {
+        const t = time.current;
+        trailMaterial.uniforms.uTime.value = t;
+
+        planets.forEach((planet, i) => {
+            orbitPosition(planet.orbit, orbitPhase(planet.orbit, t), positions[i]);
+            scale.setScalar(planet.size * (i === hovered || matched[i] ? PLANET_HOVER_SCALE : 1));
+            meshRef.current.setMatrixAt(i, matrix.compose(positions[i], rotation, scale));
+            labelRefs.current[i]?.position.copy(positions[i]);
+        });
+        meshRef.current.instanceMatrix.needsUpdate = true;
+    });
+
+    return (
+        <group>
+            <lineSegments geometry={trailGeometry} material={trailMaterial} raycast={() => null} />
+
+            {/* Picking happens in screen space, so the instances skip raycasting */}
+            <instancedMesh ref={meshRef} args={[undefined, undefined, planets.length]} frustumCulled={false} raycast={() => null}>
+                <sphereGeometry args={[1, segments / 2, segments / 2]} />
+                <meshBasicMaterial transparent opacity={0.9} toneMapped={false} />
+            </instancedMesh>
+
+            {planets.map((planet, i) => (i === hovered || matched[i]) && (
+                <group key={planet.id} ref={(group) => { labelRefs.current[i] = group; }} position={positions[i]}>
+                    <Html center style={{ pointerEvents: 'none' }} position={[0, 0.06, 0]} distanceFactor={6}>
+                        <div aria-hidden="true" className="whitespace-nowrap text-center">
+                            <div className="text-xs font-bold text-white tracking-wider" style={{ filter: `drop-shadow(0 0 6px ${planet.color})` }}>
+                                {planet.name}
+                            </div>
+                            {i === hovered && (
+                                <div className="text-[10px] text-white/70 font-light">
+                                    {t('planet.orbit', {
+                                        period: planet.orbit.period.toFixed(1),
+                                        eccentricity: planet.orbit.eccentricity.toFixed(2),
+                                        inclination: Math.round(THREE.MathUtils.radToDeg(planet.orbit.inclination)),
+                                    })}
+                                </div>
+                            )}
+                        </div>
+                    </Html>
+                </group>
+            ))}
+        </group>
+    );
+};
+
+/**
+ * A special star system embedded in a galaxy arm, rendered from its registry definition
+ */
+export const StarSystem: React.FC<StarSystemProps> = ({ system, seed, galaxy, time, quality, bloom, active, isHovered, isSelected, isFocused, isLinked, highlights, reducedMotion, touch, onHover, onSelect }) => {
+    const groupRef = useRef<THREE.Group>(null!);
+    const ringsRef = useRef<THREE.Group>(null!);
+    const particlesRef = useRef<THREE.Group>(null!);
+    // Layout the system glides away from after a morphology change, as the stars do
+    const morph = useRef<{ from: GalaxyParams; progress: number } | null>(null);
+    const shownGalaxy = useRef(galaxy);
+    const morphStart = useMemo(() => new THREE.Vector3(), []);
+
+    useEffect(() => {
+        if (shownGalaxy.current.morphology !== galaxy.morphology && !reducedMotion) {
+            morph.current = { from: shownGalaxy.current, progress: 0 };
+        }
+        shownGalaxy.current = galaxy;
+    }, [galaxy, reducedMotion]);
+
+    const { palette, label } = system;
+    // The Canvas is its own React root, but the language store is shared, so labels follow the switcher
+    const { locale } = useTranslation();
+    const description = localizeSystem(system, locale).description;
+
+    const segments = quality.sphereSegments;
+    const glow = (color: string) => (bloom ? new THREE.Color(color).multiplyScalar(BLOOM_BOOST) : color);
+    const planets = useMemo(() => generatePlanets(system, seed), [system, seed]);
+    const planetPositions = useMemo(() => planets.map(() => new THREE.Vector3()), [planets]);
+    const planetMatches = planets.map((planet) => highlights.includes(planet.id));
+    const planetsRef = useRef<THREE.Group>(null!);
+    const [hoveredPlanet, setHoveredPlanet] = useState<number | null>(null);
+    const viewport = useThree((state) => state.size);
+
+    useFrame((_, delta) => {
+        if (!groupRef.current) return;
+        const t = time.current;
+
+        // 1. Orbit Logic: Locked to the arm by the same orbital function as the galaxy shader
+        getOrbitalPosition(system.radius, system.arm, galaxy, t * ORBIT_RATE, groupRef.current.position);
+        if (morph.current) {
+            morph.current.progress = Math.min(morph.current.progress + delta / MORPH_DURATION, 1);
+            getOrbitalPosition(system.radius, system.arm, morph.current.from, t * ORBIT_RATE, morphStart);
+            groupRef.current.position.lerpVectors(morphStart, groupRef.current.position, THREE.MathUtils.smoothstep(morph.current.progress, 0, 1));
+            if (morph.current.progress === 1) morph.current = null;
+        }
+
+        // 2. Local Animation: Rotate rings
+        if (ringsRef.current) {
+            ringsRef.current.rotation.set(t * system.ringSpin[0], t * system.ringSpin[1], t * system.ringSpin[2]);
+        }
+
+        // 3. Particle Swarm Animation (Rotation + Breathing)
+        if (particlesRef.current && system.cloud) {
+            const { spin, breath } = system.cloud;
+            particlesRef.current.rotation.set(t * spin[0], t * spin[1], t * spin[2]);
+
+            const scale = 1 + Math.sin(t * breath.frequency) * breath.amplitude;
+            particlesRef.current.scale.setScalar(scale);
+        }
+
+        // 4. Entrance/Exit Animation (planets move themselves, see PlanetarySystem)
+        const targetScale = active ? 1 : 0.001;
+        const currentScale = groupRef.current.scale.x;
+        const newScale = THREE.MathUtils.lerp(currentScale, targetScale, delta * 3);
+        groupRef.current.scale.setScalar(newScale);
+    });
+
+    const handlePointerOver = (e: ThreeEvent<PointerEvent>) => {
+        e.stopPropagation();
+        // A finger never leaves the way a mouse does, so touches skip hover and go straight to the tap
+        if (!active || e.pointerType === 'touch') return;
+        onHover(system.id, true);
+        document.body.style.cursor = 'pointer';
+    };
+
+    const handlePointerOut = () => {
+        setHoveredPlanet(null);
+        if (!active) return;
+        onHover(system.id, false);
+        document.body.style.cursor = 'auto';
+    };
+
+    // Nearest planet to the pointer on screen, if any is close enough
+    const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+        if (!active || planets.length === 0 || e.pointerType === 'touch') return;
+        const projected = new THREE.Vector3();
+        let nearest: number | null = null;
+        let nearestDistance = PLANET_HIT_PIXELS;
+        planetPositions.forEach((position, i) => {
+            planetsRef.current.localToWorld(projected.copy(position)).project(e.camera);
+            const dx = ((projected.x - e.pointer.x) * viewport.width) / 2;
+            const dy = ((projected.y - e.pointer.y) * viewport.height) / 2;
+            const distance = Math.hypot(dx, dy);
+            if (distance < nearestDistance) {
+                nearest = i;
+                nearestDistance = distance;
+            }
+        });
+        if (nearest !== hoveredPlanet) setHoveredPlanet(nearest);
+    };
+
+    const handleClick = (e: ThreeEvent<MouseEvent>) => {
+        e.stopPropagation();
+        if (!active) return;
+        onSelect(system.id);
+    };
+
+    const highlighted = isHovered || isSelected || isFocused;
+    // Neighbors of the hovered system light up their label, but keep their size and description
+    const labelled = highlighted || isLinked;
+
+    return (
+        <group ref={groupRef} name={starSystemObjectName(system.id)} scale={0.001}>
+            <group
+                onPointerOver={handlePointerOver}
+                onPointerOut={handlePointerOut}
+                onPointerMove={handlePointerMove}
+                onClick={handleClick}
+                scale={highlighted ? system.hoverScale : 1}
+            >
+                {/* --- INVISIBLE HIT BOX ---
+                    Crucial for better UX. A large transparent sphere that captures mouse events.
+                */}
+                <mesh visible={true}>
+                    <sphereGeometry args={[system.hitRadius * (touch ? TOUCH_HIT_SCALE : 1), 16, 16]} />
+                    <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+                </mesh>
+
+                {isFocused && <FocusIndicator radius={system.hitRadius} color={palette.accent} pulse={!reducedMotion} time={time} />}
+                {/* Matched by a WisdomSQL query; inside the focus ring so both can show */}
+                {highlights.includes(system.id) && <FocusIndicator radius={system.hitRadius * 0.7} color={palette.glow} pulse={!reducedMotion} time={time} />}
+
+                {/* The Star Core, or a black hole in its place */}
+                {system.blackHole ? (
+                    <BlackHole
+                        spec={system.blackHole}
+                        time={time}
+                        insideColor={galaxy.insideColor}
+                        outsideColor={galaxy.outsideColor}
+                        steps={quality.lensingSteps}
+                        bloom={bloom}
+                    />
+                ) : (
+                    <mesh>
+                        <sphereGeometry args={[system.coreRadius, segments, segments]} />
+                        <meshBasicMaterial color={glow(palette.core)} toneMapped={false} />
+                    </mesh>
+                )}
+
+                {/* Halos, only needed without bloom */}
+                {!bloom && system.halos.map((halo, i) => (
+                    <mesh key={i}>
+                        <sphereGeometry args={[halo.radius, segments, segments]} />
+                        <meshBasicMaterial
+                            color={palette[halo.color]}
+                            transparent
+                            opacity={halo.opacity}
+                            blending={THREE.AdditiveBlending}
+                        />
+                    </mesh>
+                ))}
+
+                {/* Rings */}
+                <group ref={ringsRef}>
+                    {system.rings.map((ring, i) => (
+                        <mesh key={i} rotation={ring.rotation}>
+                            <torusGeometry args={[ring.radius, ring.tube, segments / 2, segments * 2]} />
+                            <meshBasicMaterial color={glow(palette[ring.color])} transparent opacity={ring.opacity} blending={THREE.AdditiveBlending} />
+                        </mesh>
+                    ))}
+                </group>
+
+                {/* Local Cluster Particles (Animated Group) */}
+                {system.cloud && (
+                    <group ref={particlesRef}>
+                        <ClusterParticles job={cloudJob(system, system.cloud, seed, quality.particleScale)} color={palette.star} />
+                    </group>
+                )}
+
+                {/* Planetary System */}
+                {system.planets && planets.length > 0 && (
+                    <group ref={planetsRef}>
+                        <PlanetarySystem
+                            planets={planets}
+                            spec={system.planets}
+                            positions={planetPositions}
+                            time={time}
+                            segments={segments}
+                            hovered={hoveredPlanet}
+                            matched={planetMatches}
+                        />
+                    </group>
+                )}
+
+                {/* Label */}
+                <Html
+                    position={label.offset}
+                    center
+                    distanceFactor={label.distanceFactor}
+                    style={{
+                        pointerEvents: 'none',
+                        opacity: active ? 1 : 0,
+                        transition: 'opacity 0.5s',
+                        display: active ? 'block' : 'none'
+                    }}
+                >
+                    {/* Screen readers get the live description in the overlay instead */}
+                    <div aria-hidden="true" className={`flex flex-col items-start transition-all duration-300 ${labelled ? 'scale-110' : 'scale-100 opacity-80'}`}>
+                        <div className="flex items-center gap-2">
+                            <div
+                                className={`h-[1px] transition-all duration-300 ${labelled ? 'w-12' : 'w-8 bg-white/50'}`}
+                                style={labelled ? { backgroundColor: palette.star } : undefined}
+                            ></div>
+                            <h1
+                                className="text-lg font-bold text-white tracking-widest uppercase"
+                                style={{ filter: `drop-shadow(0 0 10px ${palette.star})` }}
+                            >
+                                {label.title}<span style={{ color: palette.accent }}>{label.highlight}</span>
+                            </h1>
+                        </div>
+                        {highlighted && (
+                            <p
+                                className="text-xs text-white/90 ml-14 max-w-[180px] leading-tight mt-1 font-light backdrop-blur-md bg-black/40 p-2 rounded border-l-2"
+                                style={{ borderColor: palette.star, boxShadow: `0 0 15px ${palette.star}33` }}
+                            >
+                                {description.map((line, i) => (
+                                    <React.Fragment key={i}>
+                                        {i > 0 && <br/>}
+                                        {line}
+                                    </React.Fragment>
+                                ))}
+                            </p>
+                        )}
+                    </div>
+                </Html>
+            </group>
+        </group>
+    );
+};
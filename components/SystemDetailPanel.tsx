@@ -0,0 +1,101 @@
+import React from 'react';
+import { X, ExternalLink, ArrowRight } from 'lucide-react';
+import { SqlConsole } from './SqlConsole';
+import { Narrator } from './Narrator';
+import { localizeSystem } from '../utils/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+import { StarSystemDefinition } from '../types';
+
+interface SystemDetailPanelProps {
+  system: StarSystemDefinition | null;
+  seed: number;
+  onClose: () => void;
+  // For demos that point at objects in the scene
+  onHighlight: (ids: string[]) => void;
+}
+
+/**
+ * Side panel with the rich content of the selected star system; a bottom sheet on phones
+ */
+export const SystemDetailPanel: React.FC<SystemDetailPanelProps> = ({ system: definition, seed, onClose, onHighlight }) => {
+  const { locale, t } = useTranslation();
+  const system = definition && localizeSystem(definition, locale);
+
+  return (
+    <aside
+      className={`absolute bottom-0 right-0 h-[45vh] sm:h-full w-full ${system?.demo ? 'sm:max-w-md' : 'sm:max-w-sm'} transition-all duration-500 ${system ? 'opacity-100 translate-y-0 sm:translate-x-0 pointer-events-auto' : 'opacity-0 translate-y-10 sm:translate-y-0 sm:translate-x-10 pointer-events-none'}`}
+    >
+      {system && (
+        <div
+          className="h-full overflow-y-auto rounded-2xl bg-black/70 border border-white/10 backdrop-blur-md p-4 sm:p-6 space-y-4 sm:space-y-6"
+          style={{ boxShadow: `0 0 40px ${system.palette.star}22` }}
+        >
+          {/* Title */}
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <div className="text-xs uppercase tracking-widest mb-1" style={{ color: system.palette.accent }}>
+                {system.details.subtitle}
+              </div>
+              <h2 className="text-2xl sm:text-3xl font-bold text-white tracking-wide">
+                {system.label.title}<span style={{ color: system.palette.accent }}>{system.label.highlight}</span>
+              </h2>
+            </div>
+            <button onClick={onClose} title={t('detail.close')} aria-label={t('detail.close')} className="p-1 text-gray-400 hover:text-white transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Description */}
+          <div className="space-y-3 text-sm text-gray-300 leading-relaxed">
+            {system.details.body.map((paragraph, i) => <p key={i}>{paragraph}</p>)}
+          </div>
+
+          {/* Generated narration and follow-up questions, restarted for each system and language */}
+          <Narrator key={`${system.id}:${locale}`} system={system} />
+
+          {/* Stats */}
+          <div className="grid grid-cols-3 gap-4 border-t border-white/10 pt-6">
+            {system.details.stats.map((stat, i) => (
+              <div key={i}>
+                <div className="text-2xl font-bold text-white">{stat.value}</div>
+                <div className="text-[10px] text-gray-500 uppercase tracking-wider mt-1">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Links */}
+          <div className="space-y-2 border-t border-white/10 pt-6">
+            {system.details.links.map((link) => (
+              <a
+                key={link.href}
+                href={link.href}
+                className="flex items-center justify-between text-sm text-gray-300 hover:text-white transition-colors"
+              >
+                {link.label} <ExternalLink className="w-3.5 h-3.5" />
+              </a>
+            ))}
+          </div>
+
+          {/* Calls to action */}
+          <div className="flex flex-col gap-3">
+            {system.details.actions.map((action) => (
+              <a
+                key={action.href}
+                href={action.href}
+                className={action.primary
+                  ? 'group flex items-center justify-center gap-2 px-6 py-3 bg-white text-black font-bold rounded-full transition-all hover:scale-105 active:scale-95'
+                  : 'flex items-center justify-center px-6 py-3 border border-white/20 text-white font-medium rounded-full hover:bg-white/10 transition-all'}
+              >
+                {action.label}
+                {action.primary && <ArrowRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />}
+              </a>
+            ))}
+          </div>
+
+          {/* Interactive demo */}
+          {system.demo === 'sqlConsole' && <SqlConsole seed={seed} onHighlight={onHighlight} />}
+        </div>
+      )}
+    </aside>
+  );
+};
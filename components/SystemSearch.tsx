@@ -0,0 +1,104 @@
+import React, { useId, useMemo, useState } from 'react';
+import { Search } from 'lucide-react';
+import { searchSystems } from '../utils/search';
+import { localizeSystem } from '../utils/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+import { STAR_SYSTEMS } from '../data/starSystems';
+
+interface SystemSearchProps {
+  onSelect: (id: string) => void;
+}
+
+// Wraps the fuzzy-matched characters in <mark>
+const Highlighted: React.FC<{ text: string; indices: number[] }> = ({ text, indices }) => {
+  const matched = new Set(indices);
+  return (
+    <>
+      {Array.from(text, (char, i) =>
+        matched.has(i) ? <mark key={i} className="bg-transparent text-accent-400 font-bold">{char}</mark> : char
+      )}
+    </>
+  );
+};
+
+/**
+ * Search box that fuzzy-matches system names and descriptions; picking a result flies to it
+ */
+export const SystemSearch: React.FC<SystemSearchProps> = ({ onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listId = useId();
+  const { locale, t } = useTranslation();
+  // Descriptions match in the current language; names are the same in every language
+  const results = useMemo(
+    () => searchSystems(query, STAR_SYSTEMS.map((system) => localizeSystem(system, locale))),
+    [query, locale]
+  );
+  const open = query.trim() !== '';
+
+  const choose = (id: string) => {
+    onSelect(id);
+    setQuery('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (results.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((index) => (index + step + results.length) % results.length);
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      choose(results[activeIndex].system.id);
+    } else if (e.key === 'Escape') {
+      setQuery('');
+    }
+  };
+
+  return (
+    <div className="relative w-64 text-xs pointer-events-auto">
+      <div className="flex items-center gap-2 rounded-full bg-black/50 border border-white/10 backdrop-blur-md px-3 py-1.5 focus-within:border-accent-400/60 transition-colors">
+        <Search className="w-3.5 h-3.5 text-gray-400" />
+        <input
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder={t('search.placeholder')}
+          role="combobox"
+          aria-label={t('search.placeholder')}
+          aria-expanded={open}
+          aria-controls={listId}
+          aria-activedescendant={open && results[activeIndex] ? `${listId}-${activeIndex}` : undefined}
+          className="flex-grow bg-transparent text-white placeholder-gray-500 outline-none"
+        />
+      </div>
+
+      {open && (
+        <ul id={listId} role="listbox" className="absolute top-full left-0 right-0 mt-2 rounded-2xl bg-black/70 border border-white/10 backdrop-blur-md p-1 z-10">
+          {results.length === 0 && <li className="px-3 py-2 text-gray-500">{t('search.empty')}</li>}
+          {results.map(({ system, text, match }, i) => (
+            <li
+              key={system.id}
+              id={`${listId}-${i}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => choose(system.id)}
+              onMouseEnter={() => setActiveIndex(i)}
+              className={`px-3 py-2 rounded-xl cursor-pointer ${i === activeIndex ? 'bg-white/10' : ''}`}
+            >
+              <div className="font-medium tracking-wider" style={{ color: system.palette.star }}>
+                {system.label.title}{system.label.highlight}
+              </div>
+              <div className="text-gray-400 truncate">
+                <Highlighted text={text} indices={match.indices} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
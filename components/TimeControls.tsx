@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { Pause, Play, RotateCcw } from 'lucide-react';
+import { SCRUB_SPAN, SIMULATION_SPEEDS, formatSimulationTime, formatSpeed } from '../utils/simulation';
+import { useTranslation } from '../hooks/useTranslation';
+import { SimulationPlayback } from '../types';
+
+interface TimeControlsProps {
+  playback: SimulationPlayback;
+  onChange: (playback: SimulationPlayback) => void;
+  time: React.MutableRefObject<number>;
+}
+
+// Readout refresh while the clock runs
+const READOUT_MS = 100;
+
+const iconButton = 'p-1.5 rounded-full border border-white/10 text-gray-400 hover:text-white hover:border-white/40 transition-colors';
+
+/**
+ * Play/pause, speed and a scrubber for the shared simulation clock
+ */
+export const TimeControls: React.FC<TimeControlsProps> = ({ playback, onChange, time }) => {
+  const [now, setNow] = useState(time.current);
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(time.current), READOUT_MS);
+    return () => window.clearInterval(id);
+  }, [time]);
+
+  const seek = (seconds: number) => {
+    time.current = seconds;
+    setNow(seconds);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 rounded-full bg-black/50 border border-white/10 backdrop-blur-md px-3 py-1.5 text-[10px] text-gray-400 pointer-events-auto">
+      <button
+        onClick={() => onChange({ ...playback, playing: !playback.playing })}
+        title={playback.playing ? t('time.pause') : t('time.play')}
+        aria-label={playback.playing ? t('time.pause') : t('time.play')}
+        className={iconButton}
+      >
+        {playback.playing ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+      </button>
+      <button onClick={() => seek(0)} title={t('time.restart')} aria-label={t('time.restart')} className={iconButton}>
+        <RotateCcw className="w-3.5 h-3.5" />
+      </button>
+
+      <input
+        type="range"
+        min={Math.min(0, now)}
+        max={Math.max(SCRUB_SPAN, now)}
+        step={0.1}
+        value={now}
+        onChange={(e) => seek(Number(e.target.value))}
+        aria-label={t('time.scrubber')}
+        aria-valuetext={formatSimulationTime(now)}
+        className="w-32 sm:w-48 accent-violet-500"
+      />
+      <span className="w-14 font-mono text-white tabular-nums">{formatSimulationTime(now)}</span>
+
+      <div role="group" aria-label={t('time.speed')} className="flex uppercase tracking-wider">
+        {SIMULATION_SPEEDS.map((speed) => (
+          <button
+            key={speed}
+            onClick={() => onChange({ ...playback, speed })}
+            aria-pressed={playback.speed === speed}
+            className={`px-2 py-0.5 rounded-full transition-colors ${playback.speed === speed ? 'bg-white text-black font-bold' : 'hover:text-white'}`}
+          >
+            {formatSpeed(speed)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
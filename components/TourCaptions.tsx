@@ -0,0 +1,55 @@
+import React from 'react';
+import { Pause, Play, SkipBack, SkipForward, X } from 'lucide-react';
+import { TourPlayback } from '../types';
+import { getTour } from '../data/tours';
+import { localizeTour } from '../utils/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface TourCaptionsProps {
+  playback: TourPlayback | null;
+  onTogglePause: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onStop: () => void;
+}
+
+const controlButton = 'p-2 rounded-full text-gray-300 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:pointer-events-none';
+
+/**
+ * Caption and playback controls for the waypoint the tour is currently at
+ */
+export const TourCaptions: React.FC<TourCaptionsProps> = ({ playback, onTogglePause, onPrevious, onNext, onStop }) => {
+  const { locale, t } = useTranslation();
+  const definition = playback ? getTour(playback.tourId) : null;
+  const tour = definition && localizeTour(definition, locale);
+  const waypoint = tour && playback ? tour.waypoints[playback.index] : null;
+  if (!tour || !waypoint || !playback) return null;
+
+  return (
+    <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-full max-w-xl pointer-events-auto">
+      <div className="rounded-2xl bg-black/60 border border-white/10 backdrop-blur-md p-5 text-center">
+        <div className="text-[10px] uppercase tracking-widest text-accent-400 mb-2">
+          {tour.title} · {playback.index + 1} / {tour.waypoints.length}
+        </div>
+        <div>
+          <h3 className="text-2xl font-light text-white tracking-wider mb-2">{waypoint.caption.title}</h3>
+          <p className="text-sm text-gray-300 leading-relaxed">{waypoint.caption.text}</p>
+        </div>
+        <div className="flex items-center justify-center gap-2 mt-4">
+          <button onClick={onPrevious} disabled={playback.index === 0} title={t('tour.previous')} aria-label={t('tour.previous')} className={controlButton}>
+            <SkipBack className="w-4 h-4" />
+          </button>
+          <button onClick={onTogglePause} title={playback.paused ? t('tour.play') : t('tour.pause')} aria-label={playback.paused ? t('tour.play') : t('tour.pause')} className={controlButton}>
+            {playback.paused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+          </button>
+          <button onClick={onNext} title={t('tour.skip')} aria-label={t('tour.skip')} className={controlButton}>
+            <SkipForward className="w-4 h-4" />
+          </button>
+          <button onClick={onStop} title={t('tour.end')} aria-label={t('tour.end')} className={controlButton}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,32 +1,174 @@
-import React from 'react';
-import { ArrowRight, Star, Globe, Zap, ChevronLeft, Github, Twitter, Share2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { ArrowRight, Star, Globe, Zap, ChevronLeft, Share2, Shuffle, Link, Check, Clapperboard, Waves, Smartphone, Volume2, VolumeX } from 'lucide-react';
+import { GalaxyEditor } from './GalaxyEditor';
+import { SystemDetailPanel } from './SystemDetailPanel';
+import { TourCaptions } from './TourCaptions';
+import { QualityControls } from './QualityControls';
+import { EffectControls } from './EffectControls';
+import { TimeControls } from './TimeControls';
+import { SystemSearch } from './SystemSearch';
+import { Minimap } from './Minimap';
+import { CapturePanel } from './CapturePanel';
+import { MorphologySelector } from './MorphologySelector';
+import { LanguageSwitcher } from './LanguageSwitcher';
+import { StatsOverlay, useStats } from './PerformanceStats';
+import { useTranslation } from '../hooks/useTranslation';
+import { TOURS } from '../data/tours';
+import { STAR_SYSTEMS } from '../data/starSystems';
+import { withMorphology } from '../utils/morphologies';
+import { Translate, localizeSystem, localizeTour } from '../utils/i18n';
+import { QUALITY_TIERS } from '../utils/quality';
+import { CameraPose, GalaxyParams, Locale, PerformanceStats, PostEffect, PostEffectToggles, QualitySetting, QualityTier, SimulationPlayback, StarSystemDefinition, StillCaptureRequest, TourPlayback, VideoCaptureRequest } from '../types';
 
 interface UIOverlayProps {
   onExplore: () => void;
   onReturn: () => void;
   isExploring: boolean;
+  seed: number;
+  onReseed: () => void;
+  onShare: () => Promise<void>;
+  galaxyParams: GalaxyParams;
+  onGalaxyParamsChange: (params: GalaxyParams) => void;
+  selectedSystem: StarSystemDefinition | null;
+  keyboardFocusSystem: StarSystemDefinition | null;
+  onDeselect: () => void;
+  onHighlightObjects: (ids: string[]) => void;
+  onSelectSystem: (id: string) => void;
+  getCameraPose: () => CameraPose | null;
+  onNavigate: (pose: CameraPose) => void;
+  tour: TourPlayback | null;
+  onStartTour: (tourId: string) => void;
+  onTourTogglePause: () => void;
+  onTourPrevious: () => void;
+  onTourNext: () => void;
+  onTourStop: () => void;
+  simulation: SimulationPlayback;
+  onSimulationChange: (playback: SimulationPlayback) => void;
+  simulationTime: React.MutableRefObject<number>;
+  statsRef: React.MutableRefObject<PerformanceStats | null>;
+  quality: QualityTier;
+  qualitySetting: QualitySetting;
+  onQualityChange: (setting: QualitySetting) => void;
+  showStats: boolean;
+  onToggleStats: () => void;
+  effects: PostEffectToggles;
+  onToggleEffect: (effect: PostEffect) => void;
+  reducedMotion: boolean;
+  onToggleReducedMotion: () => void;
+  gyroscope: boolean;
+  // Also true until the first interaction allows audio
+  muted: boolean;
+  onToggleMuted: () => void;
+  // Only offered on touch devices with motion sensors
+  onToggleGyroscope?: () => void;
+  onCaptureStill: (request: StillCaptureRequest) => Promise<void>;
+  onRecordVideo: (request: VideoCaptureRequest, onProgress: (progress: number) => void) => Promise<void>;
 }
 
-export const UIOverlay: React.FC<UIOverlayProps> = ({ onExplore, onReturn, isExploring }) => {
+// Spoken by screen readers whenever keyboard focus or the selection changes
+const describeFocus = (t: Translate, locale: Locale, focused: StarSystemDefinition | null, selected: StarSystemDefinition | null) => {
+  if (focused) {
+    const { label, description } = localizeSystem(focused, locale);
+    return t('explore.focused', {
+      name: `${label.title}${label.highlight}`,
+      position: STAR_SYSTEMS.indexOf(focused) + 1,
+      total: STAR_SYSTEMS.length,
+      description: description.join(' '),
+    });
+  }
+  if (selected) {
+    const { label, details } = localizeSystem(selected, locale);
+    return t('explore.selected', { name: `${label.title}${label.highlight}`, subtitle: details.subtitle });
+  }
+  return '';
+};
+
+// Compact particle count for the hero stats, e.g. 58k
+const formatCount = (count: number) =>
+  count >= 1000 ? `${Math.round(count / 1000)}k` : String(count);
+
+export const UIOverlay: React.FC<UIOverlayProps> = ({
+  onExplore,
+  onReturn,
+  isExploring,
+  seed,
+  onReseed,
+  onShare,
+  galaxyParams,
+  onGalaxyParamsChange,
+  selectedSystem,
+  keyboardFocusSystem,
+  onDeselect,
+  onHighlightObjects,
+  onSelectSystem,
+  getCameraPose,
+  onNavigate,
+  tour,
+  onStartTour,
+  onTourTogglePause,
+  onTourPrevious,
+  onTourNext,
+  onTourStop,
+  simulation,
+  onSimulationChange,
+  simulationTime,
+  statsRef,
+  quality,
+  qualitySetting,
+  onQualityChange,
+  showStats,
+  onToggleStats,
+  effects,
+  onToggleEffect,
+  reducedMotion,
+  onToggleReducedMotion,
+  gyroscope,
+  muted,
+  onToggleMuted,
+  onToggleGyroscope,
+  onCaptureStill,
+  onRecordVideo,
+}) => {
+  const [copied, setCopied] = useState(false);
+  const stats = useStats(statsRef);
+  const { locale, t } = useTranslation();
+  const touring = isExploring && tour !== null;
+
+  const handleShare = async () => {
+    try {
+      await onShare();
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // Clipboard access can be denied; the seed stays visible for manual copying
+    }
+  };
+
   return (
     <div className="w-full h-full flex flex-col justify-between p-6 md:p-12 transition-opacity duration-500 pointer-events-none">
       
-      {/* Header / Nav */}
-      <header className={`flex justify-between items-center transition-all duration-500 pointer-events-auto ${isExploring ? 'opacity-0 -translate-y-10 pointer-events-none' : 'opacity-100'}`}>
+      {/* Screen reader description of the focused or selected system */}
+      <div className="sr-only" aria-live="polite" aria-atomic="true">
+        {isExploring ? describeFocus(t, locale, keyboardFocusSystem, selectedSystem) : ''}
+      </div>
+
+      {/* QA stats readout, toggled with ?stats or the gauge controls */}
+      {showStats && (
+        <div className="absolute top-2 left-2 z-20">
+          <StatsOverlay statsRef={statsRef} tier={quality} setting={qualitySetting} />
+        </div>
+      )}
+
+      {/* Header */}
+      <header inert={isExploring} className={`flex justify-between items-center transition-all duration-500 pointer-events-auto ${isExploring ? 'opacity-0 -translate-y-10 pointer-events-none' : 'opacity-100'}`}>
         <div className="flex items-center gap-2">
             <div className="w-8 h-8 bg-gradient-to-br from-accent-500 to-blue-600 rounded-full flex items-center justify-center shadow-[0_0_15px_rgba(124,58,237,0.5)]">
                 <Star className="w-4 h-4 text-white fill-white" />
             </div>
             <span className="text-xl font-bold tracking-tight text-white font-sans">ASTRA<span className="text-accent-400">.IO</span></span>
         </div>
-        <nav className="hidden md:flex gap-8 text-sm font-medium text-gray-300">
-            <a href="#" className="hover:text-white transition-colors">Gallery</a>
-            <a href="#" className="hover:text-white transition-colors">Technology</a>
-            <a href="#" className="hover:text-white transition-colors">About</a>
-        </nav>
-        <div className="flex gap-4">
-             <button className="text-gray-400 hover:text-white transition-colors"><Github className="w-5 h-5"/></button>
-             <button className="text-gray-400 hover:text-white transition-colors"><Twitter className="w-5 h-5"/></button>
+        <div className="flex items-center gap-4">
+             <LanguageSwitcher />
         </div>
       </header>
 
@@ -34,17 +176,17 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ onExplore, onReturn, isExp
       <main className="relative flex-grow flex items-center">
         
         {/* Hero Section (Home) */}
-        <div className={`w-full md:w-2/3 lg:w-1/2 transition-all duration-700 transform pointer-events-auto ${isExploring ? 'opacity-0 -translate-x-20 pointer-events-none absolute' : 'opacity-100 translate-x-0 relative'}`}>
+        <div inert={isExploring} className={`w-full md:w-2/3 lg:w-1/2 transition-all duration-700 transform pointer-events-auto ${isExploring ? 'opacity-0 -translate-x-20 pointer-events-none absolute' : 'opacity-100 translate-x-0 relative'}`}>
             <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-white/10 backdrop-blur-md border border-white/10 text-xs font-medium text-accent-400 mb-6">
                 <span className="w-2 h-2 rounded-full bg-accent-400 animate-pulse"></span>
-                Interactive 3D Experience
+                {t('hero.badge')}
             </div>
             <h1 className="text-5xl md:text-7xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-white via-gray-200 to-gray-500 leading-tight mb-6 drop-shadow-lg">
-                Explore the <br/>
-                Infinite Cosmos
+                {t('hero.titleLead')} <br/>
+                {t('hero.titleMain')}
             </h1>
             <p className="text-gray-400 text-lg md:text-xl mb-8 leading-relaxed max-w-lg">
-                Immerse yourself in a procedurally generated universe of particles and light. Experience the beauty of digital astronomy right in your browser.
+                {t('hero.body')}
             </p>
             
             <div className="flex flex-wrap gap-4">
@@ -53,77 +195,207 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ onExplore, onReturn, isExp
                     className="group relative px-8 py-3 bg-white text-black font-bold rounded-full overflow-hidden transition-all hover:scale-105 hover:shadow-[0_0_20px_rgba(255,255,255,0.4)] active:scale-95"
                 >
                     <span className="relative z-10 flex items-center gap-2">
-                        Start Journey <ArrowRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+                        {t('hero.start')} <ArrowRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
                     </span>
                 </button>
-                <button className="px-8 py-3 bg-transparent border border-white/20 text-white font-medium rounded-full hover:bg-white/10 transition-all backdrop-blur-sm">
-                    Learn More
-                </button>
             </div>
 
             {/* Stats / Features */}
             <div className="mt-16 grid grid-cols-3 gap-8 border-t border-white/10 pt-8">
                 <div>
-                    <div className="text-2xl font-bold text-white">5k+</div>
-                    <div className="text-xs text-gray-500 uppercase tracking-wider mt-1">Particles</div>
+                    <div className="text-2xl font-bold text-white">{stats ? formatCount(stats.points) : '–'}</div>
+                    <div className="text-xs text-gray-500 uppercase tracking-wider mt-1">{t('hero.particles')}</div>
                 </div>
                 <div>
-                    <div className="text-2xl font-bold text-white">60</div>
-                    <div className="text-xs text-gray-500 uppercase tracking-wider mt-1">FPS</div>
+                    <div className="text-2xl font-bold text-white">{stats ? stats.fps.toFixed(0) : '–'}</div>
+                    <div className="text-xs text-gray-500 uppercase tracking-wider mt-1">{t('hero.fps')}</div>
                 </div>
                 <div>
                     <div className="text-2xl font-bold text-white">∞</div>
-                    <div className="text-xs text-gray-500 uppercase tracking-wider mt-1">Possibilities</div>
+                    <div className="text-xs text-gray-500 uppercase tracking-wider mt-1">{t('hero.possibilities')}</div>
                 </div>
             </div>
         </div>
 
         {/* Explore Mode UI (Appears when Explore is clicked) */}
         {/* IMPORTANT: The container is pointer-events-none to let clicks pass through to canvas, only internal interactive elements have pointer-events-auto */}
-        <div className={`absolute inset-0 flex flex-col items-center justify-center transition-all duration-1000 pointer-events-none ${isExploring ? 'opacity-100 scale-100' : 'opacity-0 scale-90'}`}>
-            <div className={`text-center space-y-6 ${isExploring ? 'pointer-events-auto' : 'pointer-events-none'}`}>
-                <Globe className="w-16 h-16 text-accent-400 mx-auto animate-pulse-slow" />
-                <h2 className="text-4xl font-light text-white tracking-[0.2em]">DEEP SPACE</h2>
-                <p className="text-blue-200/60 max-w-md mx-auto">
-                    Use your mouse to navigate the nebula. The universe is vast and constantly expanding.
+        {/* On phones it drops to the bottom edge, clear of the galaxy and its labels */}
+        <div inert={!isExploring || touring} className={`absolute inset-0 flex flex-col items-center justify-end pb-24 sm:justify-center sm:pb-0 transition-all duration-1000 pointer-events-none ${isExploring && !touring ? 'opacity-100 scale-100' : 'opacity-0 scale-90'}`}>
+            <div className={`text-center space-y-3 sm:space-y-6 ${isExploring && !touring ? 'pointer-events-auto' : 'pointer-events-none'} ${selectedSystem ? 'max-sm:hidden' : ''}`}>
+                <Globe className="hidden sm:block w-16 h-16 text-accent-400 mx-auto animate-pulse-slow" />
+                <h2 className="text-2xl sm:text-4xl font-light text-white tracking-[0.2em]">{t('explore.title')}</h2>
+                <p className="hidden sm:block text-blue-200/60 max-w-md mx-auto">
+                    {t('explore.body')}
                 </p>
-                <div className="pt-8">
+                <div className="flex items-center justify-center gap-3 text-xs text-gray-400">
+                    <span className="uppercase tracking-wider">{t('explore.seed')}</span>
+                    <span className="font-mono text-white select-all">{seed}</span>
+                    <button
+                        onClick={handleShare}
+                        title={t('explore.copyLink')}
+                        aria-label={copied ? t('explore.linkCopied') : t('explore.copyLink')}
+                        className="p-1.5 rounded-full border border-white/10 hover:border-white/40 hover:text-white transition-colors"
+                    >
+                        {copied ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Link className="w-3.5 h-3.5" />}
+                    </button>
+                    <button
+                        onClick={onReseed}
+                        title={t('explore.reseed')}
+                        aria-label={t('explore.reseed')}
+                        className="p-1.5 rounded-full border border-white/10 hover:border-white/40 hover:text-white transition-colors"
+                    >
+                        <Shuffle className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+                <MorphologySelector
+                    value={galaxyParams.morphology}
+                    onChange={(morphology) => onGalaxyParamsChange(withMorphology(galaxyParams, morphology))}
+                />
+                <div className="flex flex-wrap justify-center gap-3">
+                    {TOURS.map((definition) => (
+                        <button
+                            key={definition.id}
+                            onClick={() => onStartTour(definition.id)}
+                            className="flex items-center gap-2 px-5 py-2 text-sm text-white border border-white/20 rounded-full hover:bg-white/10 transition-all backdrop-blur-sm"
+                        >
+                            <Clapperboard className="w-4 h-4 text-accent-400" /> {localizeTour(definition, locale).title}
+                        </button>
+                    ))}
+                </div>
+                <div className="pt-2 sm:pt-8">
                      <button 
                         onClick={onReturn}
                         className="flex items-center gap-2 mx-auto text-sm text-gray-400 hover:text-white transition-colors border-b border-transparent hover:border-white pb-1"
                     >
-                        <ChevronLeft className="w-4 h-4" /> Return to Orbit
+                        <ChevronLeft className="w-4 h-4" /> {t('explore.return')}
                      </button>
                 </div>
             </div>
         </div>
+
+        {/* Simulation clock (Explore Mode only), moved under the search box for the detail panel on wide screens */}
+        {isExploring && (
+            <div className={`absolute top-0 left-1/2 -translate-x-1/2 w-max max-w-full ${selectedSystem ? 'sm:top-12 sm:left-0 sm:translate-x-0' : ''}`}>
+                <TimeControls playback={simulation} onChange={onSimulationChange} time={simulationTime} />
+            </div>
+        )}
+
+        {/* System search (Explore Mode only), below the clock on phones */}
+        {isExploring && !touring && (
+            <div className="absolute top-12 sm:top-0 left-0">
+                <SystemSearch onSelect={onSelectSystem} />
+            </div>
+        )}
+
+        {/* Minimap for free exploration; hidden on phones, where the explore panel takes the bottom edge */}
+        {isExploring && !selectedSystem && !touring && (
+            <div className="absolute bottom-0 right-0 hidden sm:block">
+                <Minimap
+                    seed={seed}
+                    params={galaxyParams}
+                    quality={quality}
+                    time={simulationTime}
+                    getCameraPose={getCameraPose}
+                    onSelectSystem={onSelectSystem}
+                    onNavigate={onNavigate}
+                />
+            </div>
+        )}
+
+        {/* Galaxy Editor (Explore Mode only, replaced by the detail panel while a system is selected) */}
+        {isExploring && !selectedSystem && !touring && (
+            <div className="absolute top-0 right-0 hidden sm:block">
+                <GalaxyEditor params={galaxyParams} onChange={onGalaxyParamsChange} />
+            </div>
+        )}
+
+        {/* Selected System Details */}
+        <SystemDetailPanel system={isExploring ? selectedSystem : null} seed={seed} onClose={onDeselect} onHighlight={onHighlightObjects} />
+
+        {/* Guided Tour Captions */}
+        <TourCaptions
+            playback={touring ? tour : null}
+            onTogglePause={onTourTogglePause}
+            onPrevious={onTourPrevious}
+            onNext={onTourNext}
+            onStop={onTourStop}
+        />
       </main>
 
       {/* Footer */}
-      <footer className={`flex justify-between items-end transition-opacity duration-500 pointer-events-auto ${isExploring ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
-        <div className="text-xs text-gray-600">
-            © 2024 Astra Technologies. All rights reserved.<br/>
-            Rendered with React Three Fiber.
+      <footer className="flex justify-between items-end">
+        <div className="relative">
+            <div className={`text-xs text-gray-600 transition-opacity duration-500 ${isExploring ? 'opacity-0' : 'opacity-100'}`}>
+                {t('footer.copyright')}<br/>
+                {t('footer.credit')}
+            </div>
+            {isExploring && (
+                <div className="absolute bottom-20 sm:bottom-0 left-0 w-max max-w-[calc(100vw-3rem)] space-y-2">
+                    <EffectControls effects={effects} settings={QUALITY_TIERS[quality]} onToggle={onToggleEffect} />
+                    <QualityControls setting={qualitySetting} onChange={onQualityChange} showStats={showStats} onToggleStats={onToggleStats} />
+                </div>
+            )}
         </div>
-        <div className="flex gap-6">
-            <div className="flex flex-col items-center gap-2 group cursor-pointer">
+        <div className="flex gap-3 sm:gap-6">
+            <div className={`flex flex-col items-center gap-2 group transition-opacity duration-500 ${isExploring ? 'opacity-0 pointer-events-none' : 'opacity-100 pointer-events-auto'}`}>
                 <div className="p-3 rounded-2xl bg-white/5 border border-white/10 group-hover:border-accent-400/50 transition-colors backdrop-blur-md">
                     <Zap className="w-5 h-5 text-accent-400" />
                 </div>
-                <span className="text-[10px] font-medium text-gray-400 uppercase tracking-wider">Fast</span>
+                <span className="text-[10px] font-medium text-gray-400 uppercase tracking-wider">{t('footer.fast')}</span>
             </div>
-             <div className="flex flex-col items-center gap-2 group cursor-pointer">
+             <div className={`flex flex-col items-center gap-2 group transition-opacity duration-500 ${isExploring ? 'opacity-0 pointer-events-none' : 'opacity-100 pointer-events-auto'}`}>
                 <div className="p-3 rounded-2xl bg-white/5 border border-white/10 group-hover:border-accent-400/50 transition-colors backdrop-blur-md">
                     <Globe className="w-5 h-5 text-blue-400" />
                 </div>
-                <span className="text-[10px] font-medium text-gray-400 uppercase tracking-wider">Global</span>
+                <span className="text-[10px] font-medium text-gray-400 uppercase tracking-wider">{t('footer.global')}</span>
             </div>
-             <div className="flex flex-col items-center gap-2 group cursor-pointer">
+             {/* Reduced motion, on by default when the OS asks for it */}
+             <button
+                onClick={onToggleReducedMotion}
+                aria-pressed={reducedMotion}
+                aria-label={t('footer.reduceMotion')}
+                className="flex flex-col items-center gap-2 group cursor-pointer pointer-events-auto"
+             >
+                <div className={`p-3 rounded-2xl bg-white/5 border transition-colors backdrop-blur-md ${reducedMotion ? 'border-accent-400/60' : 'border-white/10 group-hover:border-accent-400/50'}`}>
+                    <Waves className={`w-5 h-5 ${reducedMotion ? 'text-accent-400' : 'text-gray-400'}`} />
+                </div>
+                <span className="text-[10px] font-medium text-gray-400 uppercase tracking-wider">{reducedMotion ? t('footer.calm') : t('footer.motion')}</span>
+            </button>
+             {/* Ambient soundscape, silent until the first interaction as autoplay rules require */}
+             <button
+                onClick={onToggleMuted}
+                aria-pressed={!muted}
+                aria-label={t('footer.soundscape')}
+                data-sound-toggle
+                className="flex flex-col items-center gap-2 group cursor-pointer pointer-events-auto"
+             >
+                <div className={`p-3 rounded-2xl bg-white/5 border transition-colors backdrop-blur-md ${muted ? 'border-white/10 group-hover:border-accent-400/50' : 'border-accent-400/60'}`}>
+                    {muted ? <VolumeX className="w-5 h-5 text-gray-400" /> : <Volume2 className="w-5 h-5 text-accent-400" />}
+                </div>
+                <span className="text-[10px] font-medium text-gray-400 uppercase tracking-wider">{muted ? t('footer.muted') : t('footer.sound')}</span>
+            </button>
+             {/* Tilt parallax on phones, behind the browser's motion sensor prompt */}
+             {onToggleGyroscope && (
+                <button
+                    onClick={onToggleGyroscope}
+                    aria-pressed={gyroscope}
+                    aria-label={t('footer.tiltParallax')}
+                    className="flex flex-col items-center gap-2 group cursor-pointer pointer-events-auto"
+                >
+                    <div className={`p-3 rounded-2xl bg-white/5 border transition-colors backdrop-blur-md ${gyroscope ? 'border-accent-400/60' : 'border-white/10 group-hover:border-accent-400/50'}`}>
+                        <Smartphone className={`w-5 h-5 ${gyroscope ? 'text-accent-400' : 'text-gray-400'}`} />
+                    </div>
+                    <span className="text-[10px] font-medium text-gray-400 uppercase tracking-wider">{t('footer.tilt')}</span>
+                </button>
+             )}
+             <CapturePanel onCaptureStill={onCaptureStill} onRecordVideo={onRecordVideo} />
+             {/* Share stays available while exploring: it links to the current route, seed and camera pose */}
+             <button onClick={handleShare} className="flex flex-col items-center gap-2 group cursor-pointer pointer-events-auto">
                 <div className="p-3 rounded-2xl bg-white/5 border border-white/10 group-hover:border-accent-400/50 transition-colors backdrop-blur-md">
-                    <Share2 className="w-5 h-5 text-green-400" />
+                    {copied ? <Check className="w-5 h-5 text-green-400" /> : <Share2 className="w-5 h-5 text-green-400" />}
                 </div>
-                <span className="text-[10px] font-medium text-gray-400 uppercase tracking-wider">Share</span>
-            </div>
+                <span className="text-[10px] font-medium text-gray-400 uppercase tracking-wider">{copied ? t('footer.copied') : t('footer.share')}</span>
+            </button>
         </div>
       </footer>
     </div>
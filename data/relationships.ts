@@ -0,0 +1,23 @@
+import { RelationshipEdge, RelationshipKind, RelationshipStyle } from '../types';
+
+export const RELATIONSHIP_STYLES: Record<RelationshipKind, RelationshipStyle> = {
+  dataFlow: { color: '#67e8f9', speed: 0.25 },
+  dependency: { color: '#fdba74', speed: 0.12 },
+  integration: { color: '#c4b5fd', speed: 0.18 },
+};
+
+/**
+ * How the products behind the star systems relate. Scene draws one arc per edge;
+ * several edges between the same pair fan out side by side.
+ */
+export const RELATIONSHIPS: RelationshipEdge[] = [
+  { from: 'wisdom', to: 'golden', kind: 'dataFlow' },
+  { from: 'golden', to: 'wisdom', kind: 'dependency' },
+  { from: 'wisdom', to: 'golden', kind: 'integration' },
+];
+
+/**
+ * Systems sharing an edge with `id`, in either direction
+ */
+export const linkedSystems = (id: string | null) =>
+  RELATIONSHIPS.flatMap((edge) => (edge.from === id ? [edge.to] : edge.to === id ? [edge.from] : []));
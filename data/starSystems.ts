@@ -0,0 +1,188 @@
+import { StarSystemDefinition } from '../types';
+
+/**
+ * Registry of star systems embedded in the galaxy arms.
+ * Scene renders one StarSystem per entry, so adding a system only needs a new definition here.
+ */
+export const STAR_SYSTEMS: StarSystemDefinition[] = [
+  {
+    id: 'wisdom',
+    arm: 1,
+    radius: 2.5,
+    palette: {
+      core: '#ffffff',
+      star: '#40E0D0', // Turquoise/Cyan
+      glow: '#00FFFF',
+      accent: '#67e8f9',
+    },
+    coreRadius: 0.08,
+    halos: [
+      { radius: 0.15, color: 'star', opacity: 0.8 },
+    ],
+    hitRadius: 1.4,
+    hoverScale: 1.2,
+    rings: [
+      { radius: 0.3, tube: 0.005, rotation: [Math.PI / 2, 0, 0], color: 'star', opacity: 0.4 },
+      { radius: 0.4, tube: 0.005, rotation: [0, Math.PI / 4, 0], color: 'star', opacity: 0.3 },
+    ],
+    ringSpin: [0.1, 0, 0.2],
+    cloud: {
+      count: 10000,
+      radius: 0.8,
+      falloff: 1.5,
+      size: 0.02,
+      opacity: 0.6,
+      spin: [0, -0.08, 0.02],
+      breath: { amplitude: 0.05, frequency: 0.8 },
+    },
+    // Turquoise shimmer: an open D major chord, high and glassy
+    sound: { kind: 'shimmer', notes: [74, 81, 86, 90], tremolo: 5.5, gain: 0.12 },
+    label: {
+      title: 'Wisdom',
+      highlight: 'SQL',
+      offset: [0.2, 0.2, 0],
+      distanceFactor: 8,
+    },
+    description: ['Core Intelligence Node.', 'Processing logic active.'],
+    details: {
+      subtitle: 'Core Intelligence Node',
+      body: [
+        'WisdomSQL turns natural questions into precise queries, sitting at the center of every data workflow in the cluster.',
+        'Ten thousand processing particles orbit its core, each one a query plan being evaluated in parallel.',
+      ],
+      stats: [
+        { label: 'Cluster Particles', value: '10k' },
+        { label: 'Rings', value: '2' },
+        { label: 'Arm', value: 'II' },
+      ],
+      links: [
+        { label: 'Documentation', href: '#wisdom-docs' },
+        { label: 'Changelog', href: '#wisdom-changelog' },
+      ],
+      actions: [
+        { label: 'Try WisdomSQL', href: '#wisdom-try', primary: true },
+        { label: 'Contact Sales', href: '#contact' },
+      ],
+    },
+    demo: 'sqlConsole',
+    selectionOffset: [0.4, 0.5, 1.6],
+  },
+  {
+    id: 'golden',
+    arm: 2,
+    radius: 3.2,
+    palette: {
+      core: '#ffffff',
+      star: '#FFA500', // Orange
+      glow: '#FFD700', // Gold
+      accent: '#fdba74',
+    },
+    coreRadius: 0.15,
+    halos: [
+      { radius: 0.18, color: 'star', opacity: 1.0 },
+      { radius: 0.12, color: 'glow', opacity: 0.3 },
+    ],
+    hitRadius: 0.6,
+    hoverScale: 1.3,
+    rings: [
+      { radius: 0.4, tube: 0.006, rotation: [Math.PI / 3, 0, 0], color: 'glow', opacity: 0.5 },
+      { radius: 0.5, tube: 0.004, rotation: [0, Math.PI / 6, 0], color: 'star', opacity: 0.4 },
+      { radius: 0.6, tube: 0.003, rotation: [Math.PI / 4, Math.PI / 4, 0], color: 'glow', opacity: 0.3 },
+    ],
+    ringSpin: [0, 0.15, 0.05],
+    planets: {
+      count: 8,
+      semiMajorAxis: [0.3, 0.6],
+      eccentricity: [0.02, 0.25],
+      inclination: 0.15,
+      period: 30,
+      colors: ['#FFA500', '#FFD700'],
+      size: [0.008, 0.014],
+      trail: 0.3,
+    },
+    // Warm plucks on a pentatonic scale, innermost planet lowest
+    sound: { kind: 'pluck', notes: [57, 60, 62, 64, 67, 69, 72, 74], decay: 1.6, gain: 0.25 },
+    label: {
+      title: 'Golden',
+      highlight: 'System',
+      offset: [0.3, 0.3, 0],
+      distanceFactor: 10,
+    },
+    description: ['Planetary system active.', 'Multiple celestial bodies.'],
+    details: {
+      subtitle: 'Planetary System',
+      body: [
+        'GoldenSystem brings a family of services into orbit around one bright core, each moving at its own pace.',
+        'Three orbital rings keep the planets in formation while the system drifts along the outer arm.',
+      ],
+      stats: [
+        { label: 'Planets', value: '8' },
+        { label: 'Rings', value: '3' },
+        { label: 'Arm', value: 'III' },
+      ],
+      links: [
+        { label: 'Documentation', href: '#golden-docs' },
+        { label: 'Case Studies', href: '#golden-cases' },
+      ],
+      actions: [
+        { label: 'Explore GoldenSystem', href: '#golden-try', primary: true },
+        { label: 'Contact Sales', href: '#contact' },
+      ],
+    },
+    selectionOffset: [-0.4, 0.6, 1.9],
+  },
+  {
+    id: 'core',
+    // Radius zero pins the system to the galactic center, whatever the arm
+    arm: 0,
+    radius: 0,
+    palette: {
+      core: '#000000',
+      star: '#ffb36b', // Hot accretion glow
+      glow: '#ff6030',
+      accent: '#fcd34d',
+    },
+    coreRadius: 0.06,
+    halos: [],
+    hitRadius: 0.6,
+    hoverScale: 1.1,
+    rings: [],
+    ringSpin: [0, 0, 0],
+    blackHole: {
+      horizon: 0.06,
+      disk: [0.12, 0.38],
+      lensing: 1.5,
+      tilt: 0.25,
+      spin: 0.15,
+    },
+    label: {
+      title: 'Galactic',
+      highlight: 'Core',
+      offset: [0.35, 0.3, 0],
+      distanceFactor: 10,
+    },
+    description: ['Supermassive black hole.', 'Accretion disk active.'],
+    details: {
+      subtitle: 'Supermassive Black Hole',
+      body: [
+        'At the heart of the galaxy sits a black hole, wrapped in a disk of gas heated to a glow as it spirals inwards.',
+        'Its gravity bends passing light, so the far side of the disk appears arched above and below the horizon.',
+      ],
+      stats: [
+        { label: 'Horizon', value: '0.06' },
+        { label: 'Disk', value: '0.12–0.38' },
+        { label: 'Lensing', value: '1.5×' },
+      ],
+      links: [
+        { label: 'Documentation', href: '#core-docs' },
+      ],
+      actions: [
+        { label: 'Read the Guide', href: '#core-guide', primary: true },
+      ],
+    },
+    selectionOffset: [0.6, 0.4, 1.1],
+  },
+];
+
+export const getStarSystem = (id: string | null) =>
+  STAR_SYSTEMS.find((system) => system.id === id) ?? null;
@@ -0,0 +1,67 @@
+import { TourDefinition } from '../types';
+
+/**
+ * Guided camera tours. Each waypoint is flown to along a spline, then held while its caption shows.
+ * New tours only need an entry here.
+ */
+export const TOURS: TourDefinition[] = [
+  {
+    id: 'grand-tour',
+    title: 'Grand Tour',
+    waypoints: [
+      {
+        shot: { kind: 'point', position: [0, 7, 9], lookAt: [0, 0, 0] },
+        duration: 4,
+        hold: 3,
+        easing: 'easeInOutSine',
+        caption: {
+          title: 'The Spiral',
+          text: 'Twenty thousand stars wind outward along three arms, warm at the core and cooling toward the rim.',
+        },
+      },
+      {
+        shot: { kind: 'point', position: [1.2, 0.8, 1.6], lookAt: [0, 0, 0] },
+        duration: 5,
+        hold: 3,
+        easing: 'easeInOutCubic',
+        caption: {
+          title: 'The Galactic Core',
+          text: 'The densest region of the galaxy, where the arms converge into a bright, crowded nucleus.',
+        },
+      },
+      {
+        shot: { kind: 'system', systemId: 'wisdom', offset: [0.4, 0.5, 1.6] },
+        duration: 5,
+        hold: 4,
+        easing: 'easeInOutCubic',
+        caption: {
+          title: 'WisdomSQL',
+          text: 'The core intelligence node. Ten thousand particles of query logic swirl around a single bright star.',
+        },
+      },
+      {
+        shot: { kind: 'system', systemId: 'golden', offset: [-0.4, 0.6, 1.9] },
+        duration: 5,
+        hold: 4,
+        easing: 'easeInOutCubic',
+        caption: {
+          title: 'GoldenSystem',
+          text: 'A planetary system of eight worlds held in formation by three orbital rings.',
+        },
+      },
+      {
+        shot: { kind: 'point', position: [0, 1.5, 3.5], lookAt: [0, 0, 0] },
+        duration: 4,
+        hold: 2,
+        easing: 'easeOutCubic',
+        caption: {
+          title: 'Free Flight',
+          text: 'The tour is over. Drag to look around, or pick a star system to learn more.',
+        },
+      },
+    ],
+  },
+];
+
+export const getTour = (id: string | null | undefined) =>
+  TOURS.find((tour) => tour.id === id) ?? null;
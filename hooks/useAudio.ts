@@ -0,0 +1,25 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getAudioState, setMuted, subscribeAudio, unlockAudio } from '../utils/audio';
+
+/**
+ * Whether the soundscape is silent, and a toggle for it. Autoplay rules keep audio off until the first
+ * click, tap or key press, so mount this once near the root to listen for one.
+ */
+export const useAudio = () => {
+  const state = useSyncExternalStore(subscribeAudio, getAudioState);
+  const silent = state.muted || !state.unlocked;
+
+  useEffect(() => {
+    if (state.unlocked) return;
+    const handleGesture = (e: Event) => {
+      // The mute toggle's own click decides whether sound starts
+      if (e.target instanceof Element && e.target.closest('[data-sound-toggle]')) return;
+      unlockAudio();
+    };
+    const events = ['pointerdown', 'keydown'] as const;
+    events.forEach((event) => window.addEventListener(event, handleGesture));
+    return () => events.forEach((event) => window.removeEventListener(event, handleGesture));
+  }, [state.unlocked]);
+
+  return [silent, () => setMuted(!silent)] as const;
+};
@@ -0,0 +1,32 @@
+import { use, useEffect, useState, useSyncExternalStore } from 'react';
+import { getBufferProgress, loadBuffers, peekBuffers, subscribeBufferProgress } from '../utils/bufferCache';
+import { BufferJob, BufferResult } from '../types';
+
+/**
+ * Worker-generated buffers for a job.
+ * Suspends on first load; afterwards the previous buffers stay on screen until the new ones arrive,
+ * so editing parameters never drops back to the loading screen.
+ */
+export const useBuffers = <J extends BufferJob>(job: J): BufferResult<J> => {
+  const request = loadBuffers(job);
+  const [previous, setPrevious] = useState<BufferResult<J> | null>(null);
+
+  useEffect(() => {
+    let current = true;
+    request.then(
+      (buffers) => current && setPrevious(buffers),
+      // Keep showing the last good buffers
+      () => {}
+    );
+    return () => {
+      current = false;
+    };
+  }, [request]);
+
+  return peekBuffers(job) ?? previous ?? use(request);
+};
+
+/**
+ * Particles generated so far across all queued jobs
+ */
+export const useBufferProgress = () => useSyncExternalStore(subscribeBufferProgress, getBufferProgress);
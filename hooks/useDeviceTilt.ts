@@ -0,0 +1,23 @@
+import { useEffect, useRef } from 'react';
+import { tiltFromOrientation } from '../utils/touch';
+
+/**
+ * Latest device tilt in [-1, 1] while `enabled`, read each frame without re-rendering; null when unknown
+ */
+export const useDeviceTilt = (enabled: boolean) => {
+  const tilt = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleOrientation = (e: DeviceOrientationEvent) => {
+      tilt.current = tiltFromOrientation(e);
+    };
+    window.addEventListener('deviceorientation', handleOrientation);
+    return () => {
+      window.removeEventListener('deviceorientation', handleOrientation);
+      tilt.current = null;
+    };
+  }, [enabled]);
+
+  return tilt;
+};
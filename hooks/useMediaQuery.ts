@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Whether a CSS media query currently matches, e.g. a touch screen or a narrow viewport
+ */
+export const useMediaQuery = (query: string) => {
+  const [matches, setMatches] = useState(() => window.matchMedia?.(query).matches ?? false);
+
+  useEffect(() => {
+    const list = window.matchMedia?.(query);
+    if (!list) return;
+    setMatches(list.matches);
+    const handleChange = (e: MediaQueryListEvent) => setMatches(e.matches);
+    list.addEventListener('change', handleChange);
+    return () => list.removeEventListener('change', handleChange);
+  }, [query]);
+
+  return matches;
+};
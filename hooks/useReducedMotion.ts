@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useState } from 'react';
+import { REDUCED_MOTION_QUERY, loadMotionOverride, prefersReducedMotion, saveMotionOverride } from '../utils/motion';
+
+/**
+ * Reduced-motion mode: follows the OS media query until the user toggles it, then remembers their choice
+ */
+export const useReducedMotion = () => {
+  const [override, setOverride] = useState(loadMotionOverride);
+  const [systemPreference, setSystemPreference] = useState(prefersReducedMotion);
+
+  useEffect(() => {
+    const query = window.matchMedia?.(REDUCED_MOTION_QUERY);
+    if (!query) return;
+    const handleChange = (e: MediaQueryListEvent) => setSystemPreference(e.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  const setReducedMotion = useCallback((reduced: boolean) => {
+    setOverride(reduced);
+    saveMotionOverride(reduced);
+  }, []);
+
+  return [override ?? systemPreference, setReducedMotion] as const;
+};
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Route, parseRoute, routePath } from '../utils/router';
+
+/**
+ * Current route backed by the History API, so back/forward move between screens.
+ * Navigation keeps the seed but drops a shared camera pose, which only applies on load.
+ */
+export const useRoute = () => {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname));
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((next: Route, options: { replace?: boolean } = {}) => {
+    const url = new URL(routePath(next), window.location.origin);
+    const seed = new URLSearchParams(window.location.search).get('seed');
+    if (seed) url.searchParams.set('seed', seed);
+
+    if (options.replace) {
+      window.history.replaceState(null, '', url);
+    } else if (url.toString() !== window.location.href) {
+      window.history.pushState(null, '', url);
+    }
+    setRoute(next);
+  }, []);
+
+  return [route, navigate] as const;
+};
@@ -0,0 +1,12 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { Translate, getLocale, subscribeLocale, translate } from '../utils/i18n';
+
+/**
+ * The current language and a `t` for its messages; re-renders when the language changes.
+ * Works inside the Canvas too, so 3D labels switch along with the overlay.
+ */
+export const useTranslation = () => {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  const t = useCallback<Translate>((key, params) => translate(locale, key, params), [locale]);
+  return { locale, t };
+};
@@ -0,0 +1,192 @@
+/**
+ * English interface strings. This catalog defines the message keys; every other locale must translate all of them.
+ * `{name}` placeholders are filled in by `translate`.
+ */
+export const en = {
+  'app.title': 'Infinite Cosmos 3D',
+  'app.sceneLabel': 'Galaxy map. Tab or arrow keys move between star systems, Enter selects, Escape goes back.',
+  'app.loading': 'Loading Universe...',
+  'app.sceneFailed': 'The galaxy could not be built.',
+  'app.retry': 'Try again',
+
+  'header.language': 'Language',
+
+  'hero.badge': 'Interactive 3D Experience',
+  'hero.titleLead': 'Explore the',
+  'hero.titleMain': 'Infinite Cosmos',
+  'hero.body': 'Immerse yourself in a procedurally generated universe of particles and light. Experience the beauty of digital astronomy right in your browser.',
+  'hero.start': 'Start Journey',
+  'hero.particles': 'Particles',
+  'hero.fps': 'FPS',
+  'hero.possibilities': 'Possibilities',
+
+  'explore.title': 'DEEP SPACE',
+  'explore.body': 'Use your mouse, or Tab and the arrow keys, to navigate the nebula. The universe is vast and constantly expanding.',
+  'explore.seed': 'Seed',
+  'explore.copyLink': 'Copy link to this view',
+  'explore.linkCopied': 'Link copied',
+  'explore.reseed': 'Generate a new galaxy',
+  'explore.return': 'Return to Orbit',
+  'explore.focused': '{name}, system {position} of {total}. {description} Press Enter to select.',
+  'explore.selected': '{name} selected. {subtitle}. Press Escape to go back.',
+
+  'footer.copyright': '© 2024 Astra Technologies. All rights reserved.',
+  'footer.credit': 'Rendered with React Three Fiber.',
+  'footer.fast': 'Fast',
+  'footer.global': 'Global',
+  'footer.reduceMotion': 'Reduce motion',
+  'footer.calm': 'Calm',
+  'footer.motion': 'Motion',
+  'footer.tiltParallax': 'Tilt parallax',
+  'footer.tilt': 'Tilt',
+  'footer.soundscape': 'Ambient sound',
+  'footer.sound': 'Sound',
+  'footer.muted': 'Muted',
+  'footer.share': 'Share',
+  'footer.copied': 'Copied',
+
+  'search.placeholder': 'Find a star system',
+  'search.empty': 'No systems match',
+
+  'minimap.label': 'Galaxy minimap. Click a marker to visit its system, or anywhere else to move the camera there.',
+
+  'time.play': 'Play simulation',
+  'time.pause': 'Pause simulation',
+  'time.restart': 'Back to the start',
+  'time.scrubber': 'Simulation time',
+  'time.speed': 'Simulation speed',
+
+  'quality.group': 'Render quality',
+  'quality.low': 'Low',
+  'quality.medium': 'Medium',
+  'quality.high': 'High',
+  'quality.auto': 'Auto',
+  'quality.stats': 'Performance stats',
+  'quality.showStats': 'Show stats',
+  'quality.hideStats': 'Hide stats',
+  'quality.stats.fps': 'FPS',
+  'quality.stats.frame': 'Frame',
+  'quality.stats.frameTime': '{ms} ms',
+  'quality.stats.drawCalls': 'Draw calls',
+  'quality.stats.triangles': 'Triangles',
+  'quality.stats.points': 'Points',
+  'quality.stats.quality': 'Quality',
+  'quality.stats.auto': 'auto ({tier})',
+
+  'effects.group': 'Post-processing effects',
+  'effects.unavailable': 'Not available at this quality',
+  'effect.bloom': 'Bloom',
+  'effect.vignette': 'Vignette',
+  'effect.grain': 'Grain',
+  'effect.chromaticAberration': 'Aberration',
+  'effect.depthOfField': 'Depth of Field',
+
+  'morphology.group': 'Galaxy morphology',
+
+  'editor.title': 'Galaxy Editor',
+  'editor.radius': 'Radius',
+  'editor.branches': 'Branches',
+  'editor.spin': 'Spin',
+  'editor.randomness': 'Randomness',
+  'editor.randomnessPower': 'Randomness Power',
+  'editor.dustRadius': 'Dust Radius',
+  'editor.dustRandomness': 'Dust Randomness',
+  'editor.starCount': 'Stars',
+  'editor.dustCount': 'Dust',
+  'editor.insideColor': 'Inside',
+  'editor.outsideColor': 'Outside',
+  'editor.presetName': 'Preset name',
+  'editor.savePreset': 'Save preset',
+  'editor.applyPreset': 'Apply preset {name}',
+  'editor.deletePreset': 'Delete preset',
+  'editor.deleteNamedPreset': 'Delete preset {name}',
+  'editor.export': 'Export JSON',
+  'editor.import': 'Import JSON',
+  'editor.reset': 'Reset to defaults',
+  'editor.importFailed': 'Could not import parameters',
+  'editor.presetsUnavailable': 'Presets could not be saved: browser storage is full or disabled',
+  'editor.invalidJson': 'File is not valid JSON',
+  'editor.notObject': 'Galaxy parameters must be a JSON object',
+  'editor.notNumber': '"{key}" must be a number',
+  'editor.notColor': '"{key}" must be a hex color like #ff6030',
+  'editor.unknownMorphology': '"morphology" must be one of {options}',
+  'editor.shapeNotObject': '"morphologyParams" must be an object',
+
+  'capture.title': 'Capture',
+  'capture.close': 'Close',
+  'capture.includeUI': 'Include interface',
+  'capture.pngWidth': 'PNG width',
+  'capture.rendering': 'Rendering...',
+  'capture.savePng': 'Save PNG',
+  'capture.width': 'Width',
+  'capture.length': 'Length',
+  'capture.fps': 'FPS',
+  'capture.recording': 'Recording {percent}%',
+  'capture.recordWebm': 'Record WebM',
+  'capture.failed': 'Capture failed',
+  'capture.noCanvas': 'Could not create a capture canvas',
+  'capture.needsWebCodecs': 'Video capture needs WebCodecs, available in Chrome, Edge and Firefox 130+',
+  'capture.noWebm': 'This browser cannot encode WebM video',
+
+  'detail.close': 'Close (Esc)',
+
+  'sql.title': 'WisdomSQL Console',
+  'sql.history': 'Query history',
+  'sql.noHistory': 'No queries yet',
+  'sql.editor': 'SQL query',
+  'sql.run': 'Run',
+  'sql.runHint': 'Run query (Ctrl+Enter)',
+  'sql.example.eccentric': 'Eccentric orbits',
+  'sql.example.census': 'Planets per system',
+  'sql.example.outer': 'Outermost planets',
+  'sql.example.ringed': 'Ringed systems',
+  'sql.summary': 'Rows: {count} · {ms} ms',
+  'sql.noRows': 'No rows',
+  'sql.highlighted': 'Highlighted in scene: {count}',
+  'sql.clearHighlight': 'Clear highlight',
+  'sql.failed': 'The query failed',
+  'sql.expected': 'Expected {expected} but found {found}',
+  'sql.endOfQuery': 'the end of the query',
+  'sql.aName': 'a name',
+  'sql.aValue': 'a value',
+  'sql.aColumn': 'a column',
+  'sql.aColumnList': 'a column list',
+  'sql.aRowCount': 'a row count',
+  'sql.unterminatedString': 'Unterminated string',
+  'sql.unknownTable': 'Unknown table "{table}"',
+  'sql.unknownTableListed': 'Unknown table "{table}". Tables: {tables}',
+  'sql.unknownColumn': 'Unknown column "{column}"',
+  'sql.ambiguousColumn': 'Column "{column}" is ambiguous; prefix it with a table name',
+  'sql.unknownOperator': 'Unknown operator {operator}',
+  'sql.notHere': '{name} cannot be used here',
+  'sql.oneArgument': '{name} takes one argument',
+  'sql.aggregateInWhere': 'Aggregates belong in HAVING, not WHERE',
+
+  'narrator.title': 'Narrator',
+  'narrator.offline': 'Offline narrator with canned replies. Set GEMINI_API_KEY in .env.local and run the dev server for generated narration.',
+  'narrator.ask': 'Ask about {name}',
+  'narrator.send': 'Ask',
+  'narrator.stop': 'Stop',
+  'narrator.retry': 'Retry',
+  'narrator.failed': 'The narrator could not answer: {message}',
+  'narrator.mock.opening': 'Welcome to {name} ({subtitle}). {body} By the numbers: {stats}.',
+  'narrator.mock.planets': '{name} holds {count} planets on Keplerian orbits, kept in formation by {rings} orbital rings. Hover one to read its period and eccentricity.',
+  'narrator.mock.noPlanets': '{name} has no planets. Instead, {particles} particles orbit inside its {rings} rings.',
+  'narrator.mock.location': '{name} lies on spiral arm {arm}, {radius} units from the galactic core, and circles it with the stars around it.',
+  'narrator.mock.center': '{name} sits at the very center of the galaxy. Every arm winds around it, and the stars nearest to it orbit fastest.',
+  'narrator.mock.fallback': "The star charts don't cover that, but here is what they say about {name}: {fact}",
+
+  'relationship.dataFlow': 'Data flow',
+  'relationship.dependency': 'Depends on',
+  'relationship.integration': 'Integration',
+
+  'planet.orbit': 'Period {period}s · e {eccentricity} · i {inclination}°',
+
+  'tour.previous': 'Previous',
+  'tour.play': 'Play',
+  'tour.pause': 'Pause',
+  'tour.skip': 'Skip',
+  'tour.end': 'End tour',
+};
+
+export type MessageKey = keyof typeof en;
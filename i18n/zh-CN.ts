@@ -0,0 +1,246 @@
+import { MessageKey } from './en';
+import { LocaleContent } from '../types';
+
+export const zhCN: Record<MessageKey, string> = {
+  'app.title': '无限宇宙 3D',
+  'app.sceneLabel': '星系地图。使用 Tab 或方向键在星系之间切换，Enter 选择，Esc 返回。',
+  'app.loading': '正在加载宇宙…',
+  'app.sceneFailed': '无法生成星系。',
+  'app.retry': '重试',
+
+  'header.language': '语言',
+
+  'hero.badge': '交互式 3D 体验',
+  'hero.titleLead': '探索',
+  'hero.titleMain': '无限宇宙',
+  'hero.body': '沉浸在由粒子与光构成的程序化宇宙之中，在浏览器里感受数字天文之美。',
+  'hero.start': '开启旅程',
+  'hero.particles': '粒子',
+  'hero.fps': '帧率',
+  'hero.possibilities': '可能',
+
+  'explore.title': '深空',
+  'explore.body': '使用鼠标，或 Tab 与方向键，在星云中穿行。宇宙浩瀚，且在不断膨胀。',
+  'explore.seed': '种子',
+  'explore.copyLink': '复制当前视图链接',
+  'explore.linkCopied': '链接已复制',
+  'explore.reseed': '生成新的星系',
+  'explore.return': '返回轨道',
+  'explore.focused': '{name}，第 {position} 个星系，共 {total} 个。{description}按 Enter 选择。',
+  'explore.selected': '已选择 {name}。{subtitle}。按 Esc 返回。',
+
+  'footer.copyright': '© 2024 Astra Technologies. 保留所有权利。',
+  'footer.credit': '由 React Three Fiber 渲染。',
+  'footer.fast': '极速',
+  'footer.global': '全球',
+  'footer.reduceMotion': '减少动态效果',
+  'footer.calm': '静止',
+  'footer.motion': '动态',
+  'footer.tiltParallax': '倾斜视差',
+  'footer.tilt': '倾斜',
+  'footer.soundscape': '环境音效',
+  'footer.sound': '声音',
+  'footer.muted': '静音',
+  'footer.share': '分享',
+  'footer.copied': '已复制',
+
+  'search.placeholder': '查找星系',
+  'search.empty': '没有匹配的星系',
+
+  'minimap.label': '星系小地图。点击标记前往对应星系，点击其他位置将镜头移到该处。',
+
+  'time.play': '播放模拟',
+  'time.pause': '暂停模拟',
+  'time.restart': '回到起点',
+  'time.scrubber': '模拟时间',
+  'time.speed': '模拟速度',
+
+  'quality.group': '渲染质量',
+  'quality.low': '低',
+  'quality.medium': '中',
+  'quality.high': '高',
+  'quality.auto': '自动',
+  'quality.stats': '性能统计',
+  'quality.showStats': '显示统计',
+  'quality.hideStats': '隐藏统计',
+  'quality.stats.fps': '帧率',
+  'quality.stats.frame': '帧时间',
+  'quality.stats.frameTime': '{ms} 毫秒',
+  'quality.stats.drawCalls': '绘制调用',
+  'quality.stats.triangles': '三角形',
+  'quality.stats.points': '点',
+  'quality.stats.quality': '画质',
+  'quality.stats.auto': '自动（{tier}）',
+
+  'effects.group': '后期处理效果',
+  'effects.unavailable': '当前画质不可用',
+  'effect.bloom': '泛光',
+  'effect.vignette': '暗角',
+  'effect.grain': '颗粒',
+  'effect.chromaticAberration': '色差',
+  'effect.depthOfField': '景深',
+
+  'morphology.group': '星系形态',
+
+  'editor.title': '星系编辑器',
+  'editor.radius': '半径',
+  'editor.branches': '旋臂数',
+  'editor.spin': '旋转',
+  'editor.randomness': '随机度',
+  'editor.randomnessPower': '随机幂次',
+  'editor.dustRadius': '尘埃半径',
+  'editor.dustRandomness': '尘埃随机度',
+  'editor.starCount': '恒星',
+  'editor.dustCount': '尘埃',
+  'editor.insideColor': '内侧',
+  'editor.outsideColor': '外侧',
+  'editor.presetName': '预设名称',
+  'editor.savePreset': '保存预设',
+  'editor.applyPreset': '应用预设 {name}',
+  'editor.deletePreset': '删除预设',
+  'editor.deleteNamedPreset': '删除预设 {name}',
+  'editor.export': '导出 JSON',
+  'editor.import': '导入 JSON',
+  'editor.reset': '恢复默认',
+  'editor.importFailed': '无法导入参数',
+  'editor.presetsUnavailable': '无法保存预设：浏览器存储已满或被禁用',
+  'editor.invalidJson': '文件不是有效的 JSON',
+  'editor.notObject': '星系参数必须是一个 JSON 对象',
+  'editor.notNumber': '"{key}" 必须是数字',
+  'editor.notColor': '"{key}" 必须是十六进制颜色，例如 #ff6030',
+  'editor.unknownMorphology': '"morphology" 必须是以下之一：{options}',
+  'editor.shapeNotObject': '"morphologyParams" 必须是一个对象',
+
+  'capture.title': '截取',
+  'capture.close': '关闭',
+  'capture.includeUI': '包含界面',
+  'capture.pngWidth': 'PNG 宽度',
+  'capture.rendering': '渲染中…',
+  'capture.savePng': '保存 PNG',
+  'capture.width': '宽度',
+  'capture.length': '时长',
+  'capture.fps': '帧率',
+  'capture.recording': '录制中 {percent}%',
+  'capture.recordWebm': '录制 WebM',
+  'capture.failed': '截取失败',
+  'capture.noCanvas': '无法创建截取画布',
+  'capture.needsWebCodecs': '视频录制需要 WebCodecs，Chrome、Edge 与 Firefox 130+ 支持',
+  'capture.noWebm': '此浏览器无法编码 WebM 视频',
+
+  'detail.close': '关闭（Esc）',
+
+  'sql.title': 'WisdomSQL 控制台',
+  'sql.history': '查询历史',
+  'sql.noHistory': '暂无查询',
+  'sql.editor': 'SQL 查询',
+  'sql.run': '运行',
+  'sql.runHint': '运行查询（Ctrl+Enter）',
+  'sql.example.eccentric': '偏心轨道',
+  'sql.example.census': '各星系行星数',
+  'sql.example.outer': '最外侧行星',
+  'sql.example.ringed': '带光环的星系',
+  'sql.summary': '行数：{count} · {ms} 毫秒',
+  'sql.noRows': '没有数据',
+  'sql.highlighted': '场景中已高亮：{count}',
+  'sql.clearHighlight': '清除高亮',
+  'sql.failed': '查询失败',
+  'sql.expected': '此处应为{expected}，实际为{found}',
+  'sql.endOfQuery': '查询结尾',
+  'sql.aName': '名称',
+  'sql.aValue': '值',
+  'sql.aColumn': '列',
+  'sql.aColumnList': '列列表',
+  'sql.aRowCount': '行数',
+  'sql.unterminatedString': '字符串缺少结束引号',
+  'sql.unknownTable': '未知的表 "{table}"',
+  'sql.unknownTableListed': '未知的表 "{table}"。可用的表：{tables}',
+  'sql.unknownColumn': '未知的列 "{column}"',
+  'sql.ambiguousColumn': '列 "{column}" 有歧义，请加上表名前缀',
+  'sql.unknownOperator': '未知的运算符 {operator}',
+  'sql.notHere': '此处不能使用 {name}',
+  'sql.oneArgument': '{name} 只接受一个参数',
+  'sql.aggregateInWhere': '聚合函数应写在 HAVING 中，而不是 WHERE',
+
+  'narrator.title': '解说员',
+  'narrator.offline': '离线解说，使用预设回答。在 .env.local 中设置 GEMINI_API_KEY 并运行开发服务器，即可获得生成式解说。',
+  'narrator.ask': '询问关于 {name} 的问题',
+  'narrator.send': '提问',
+  'narrator.stop': '停止',
+  'narrator.retry': '重试',
+  'narrator.failed': '解说员无法回答：{message}',
+  'narrator.mock.opening': '欢迎来到 {name}（{subtitle}）。{body}数据一览：{stats}。',
+  'narrator.mock.planets': '{name} 拥有 {count} 颗沿开普勒轨道运行的行星，{rings} 道轨道光环让它们保持队形。将鼠标悬停在行星上可查看其周期与偏心率。',
+  'narrator.mock.noPlanets': '{name} 没有行星，取而代之的是 {particles} 个在 {rings} 道光环内运行的粒子。',
+  'narrator.mock.location': '{name} 位于第 {arm} 条旋臂上，距银心 {radius} 个单位，随周围的恒星一同环绕银心运行。',
+  'narrator.mock.center': '{name} 位于银河系的正中心。所有旋臂都环绕着它，离它越近的恒星运行得越快。',
+  'narrator.mock.fallback': '星图上没有这方面的记载，不过关于 {name}，它是这样写的：{fact}',
+
+  'relationship.dataFlow': '数据流',
+  'relationship.dependency': '依赖',
+  'relationship.integration': '集成',
+
+  'planet.orbit': '周期 {period} 秒 · 偏心率 {eccentricity} · 倾角 {inclination}°',
+
+  'tour.previous': '上一站',
+  'tour.play': '播放',
+  'tour.pause': '暂停',
+  'tour.skip': '跳过',
+  'tour.end': '结束导览',
+};
+
+export const zhCNContent: LocaleContent = {
+  systems: {
+    wisdom: {
+      description: ['核心智能节点。', '处理逻辑运行中。'],
+      subtitle: '核心智能节点',
+      body: [
+        'WisdomSQL 将自然语言问题转化为精确的查询，位于集群中每一条数据工作流的中心。',
+        '一万个处理粒子环绕其核心运行，每一个都是正在并行评估的查询计划。',
+      ],
+      stats: ['集群粒子', '光环', '旋臂'],
+      links: ['文档', '更新日志'],
+      actions: ['试用 WisdomSQL', '联系销售'],
+    },
+    golden: {
+      description: ['行星系统运行中。', '多个天体。'],
+      subtitle: '行星系统',
+      body: [
+        'GoldenSystem 让一系列服务围绕同一颗明亮的核心运转，各自以自己的节奏前行。',
+        '三道轨道光环让行星保持队形，整个星系沿着外侧旋臂缓缓漂移。',
+      ],
+      stats: ['行星', '光环', '旋臂'],
+      links: ['文档', '案例研究'],
+      actions: ['探索 GoldenSystem', '联系销售'],
+    },
+    core: {
+      description: ['超大质量黑洞。', '吸积盘运行中。'],
+      subtitle: '超大质量黑洞',
+      body: [
+        '星系的中心是一个黑洞，包裹着一圈向内盘旋、被加热到发光的气体吸积盘。',
+        '它的引力会弯曲经过的光线，因此吸积盘的远端看起来在视界的上下方拱起。',
+      ],
+      stats: ['视界', '吸积盘', '引力透镜'],
+      links: ['文档'],
+      actions: ['阅读指南'],
+    },
+  },
+  tours: {
+    'grand-tour': {
+      title: '星系巡礼',
+      captions: [
+        { title: '旋涡', text: '两万颗恒星沿三条旋臂向外盘旋，核心温暖，边缘渐冷。' },
+        { title: '银心', text: '星系中最密集的区域，旋臂在此汇聚成明亮而拥挤的核心。' },
+        { title: 'WisdomSQL', text: '核心智能节点。一万个查询逻辑粒子围绕一颗明亮的恒星旋转。' },
+        { title: 'GoldenSystem', text: '由八颗行星组成的行星系统，三道轨道光环使它们保持队形。' },
+        { title: '自由飞行', text: '导览结束。拖动以环顾四周，或选择一个星系了解更多。' },
+      ],
+    },
+  },
+  morphologies: {
+    spiral: { label: '旋涡', params: {} },
+    barred: { label: '棒旋', params: { barLength: '棒长', barWidth: '棒宽', barFraction: '棒中恒星' } },
+    elliptical: { label: '椭圆', params: { flattening: '扁率', elongation: '伸长', concentration: '聚集度' } },
+    irregular: { label: '不规则', params: { clumps: '星团数', clumpSize: '星团大小', diffuse: '弥散恒星' } },
+    ring: { label: '环状', params: { ringRadius: '环半径', ringWidth: '环宽', coreFraction: '核心恒星', coreSize: '核心大小' } },
+  },
+};
@@ -0,0 +1,86 @@
+/**
+ * Checks the offline narrator's canned replies: same request, same text; questions routed by keyword in
+ * either language; streams that stop when aborted. Loads the TypeScript sources through Vite, so it runs
+ * with nothing but the project's own dependencies: `npm run check:narrator`.
+ */
+import assert from 'node:assert/strict';
+import { createServer } from 'vite';
+
+// The language store looks at the browser's preferences when it loads; older Node has no navigator
+globalThis.navigator ??= { languages: ['en'], language: 'en' };
+
+const server = await createServer({
+  configFile: false,
+  logLevel: 'silent',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+  optimizeDeps: { noDiscovery: true },
+});
+
+const collect = async (stream) => {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+};
+
+try {
+  const { mockNarrator } = await server.ssrLoadModule('/utils/mockNarrator.ts');
+  const { getStarSystem } = await server.ssrLoadModule('/data/starSystems.ts');
+  const { translate } = await server.ssrLoadModule('/utils/i18n.ts');
+
+  const ask = (id, locale, questions = []) =>
+    collect(mockNarrator.stream({
+      system: getStarSystem(id),
+      locale,
+      turns: questions.map((text) => ({ role: 'user', text })),
+    }, new AbortController().signal));
+
+  const golden = getStarSystem('golden');
+
+  // The opening is the system's own copy, and the same every time
+  const opening = await ask('golden', 'en');
+  assert.equal(opening, await ask('golden', 'en'));
+  assert.ok(opening.startsWith('Welcome to GoldenSystem (Planetary System).'), opening);
+  for (const line of golden.details.body) assert.ok(opening.includes(line), line);
+
+  // Keyword routing, in English and Chinese
+  assert.equal(
+    await ask('golden', 'en', ['Tell me about the planets']),
+    translate('en', 'narrator.mock.planets', { name: 'GoldenSystem', count: 8, rings: 3 })
+  );
+  assert.equal(
+    await ask('wisdom', 'zh-CN', ['它有行星吗？']),
+    translate('zh-CN', 'narrator.mock.noPlanets', { name: 'WisdomSQL', particles: 10000, rings: 2 })
+  );
+  assert.equal(
+    await ask('wisdom', 'en', ['Where is it?']),
+    translate('en', 'narrator.mock.location', { name: 'WisdomSQL', arm: 2, radius: 2.5 })
+  );
+  assert.equal(
+    await ask('core', 'en', ['Where is it?']),
+    translate('en', 'narrator.mock.center', { name: 'GalacticCore' })
+  );
+
+  // Anything else gets one of the system's facts, the same one for the same question
+  const fallback = await ask('wisdom', 'en', ['Who built it?']);
+  assert.equal(fallback, await ask('wisdom', 'en', ['Who built it?']));
+  assert.ok(fallback.startsWith("The star charts don't cover that"), fallback);
+
+  // Only the latest question counts
+  assert.equal(await ask('golden', 'en', ['Who built it?', 'Where is it?']), await ask('golden', 'en', ['Where is it?']));
+
+  // Aborting ends the stream early
+  const controller = new AbortController();
+  const chunks = [];
+  await assert.rejects(async () => {
+    for await (const chunk of mockNarrator.stream({ system: golden, locale: 'en', turns: [] }, controller.signal)) {
+      chunks.push(chunk);
+      if (chunks.length === 2) controller.abort();
+    }
+  });
+  assert.equal(chunks.length, 2);
+
+  console.log('Mock narrator: all checks passed');
+} finally {
+  await server.close();
+}
@@ -0,0 +1,159 @@
+import * as THREE from 'three';
+import { BlackHoleSpec } from '../types';
+
+// The bounding sphere the rays are traced in, as a multiple of the disk's outer radius
+export const BLACK_HOLE_BOUND = 1.3;
+
+/**
+ * Raymarched black hole with an accretion disk, drawn on the back faces of a bounding sphere.
+ * Rays start at the camera (uCamera, in the sphere's local frame with the disk in the XZ plane) and are
+ * bent towards the center on every step, so the far side of the disk shows up arched over and under
+ * the horizon as it does around a real black hole. With STEPS at 0 rays go straight: a flat disk and
+ * a black sphere, for low quality tiers. Colors are premultiplied; light beyond the alpha adds on top.
+ */
+const vertexShader = /* glsl */ `
+  varying vec3 vLocal;
+
+  void main() {
+    vLocal = position;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform float uTime;
+  uniform vec3 uCamera;
+  uniform float uHorizon;
+  uniform float uInner;
+  uniform float uOuter;
+  uniform float uLensing;
+  uniform float uSpin;
+  uniform float uBound;
+  uniform float uBoost;
+  uniform float uOpacity;
+  uniform vec3 uInsideColor;
+  uniform vec3 uOutsideColor;
+  varying vec3 vLocal;
+
+  float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+  }
+
+  float noise(vec2 p) {
+    vec2 i = floor(p);
+    vec2 f = fract(p);
+    vec2 u = f * f * (3.0 - 2.0 * f);
+    return mix(mix(hash(i), hash(i + vec2(1.0, 0.0)), u.x), mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0, 1.0)), u.x), u.y);
+  }
+
+  // Emission (premultiplied) and opacity of the disk where a ray crosses its plane
+  vec4 disk(vec3 hit, vec3 dir) {
+    float r = length(hit.xz);
+    if (r < uInner || r > uOuter) return vec4(0.0);
+    float x = (r - uInner) / (uOuter - uInner);
+
+    // Inner gas orbits faster, as Kepler's third law has it
+    float angle = atan(hit.z, hit.x) - uTime * uSpin * 6.2831853 * pow(uInner / r, 1.5);
+    vec2 p = vec2(cos(angle), sin(angle)) * r / uInner * 3.0;
+    float streaks = 0.55 * noise(p * vec2(1.0, 6.0)) + 0.45 * noise(p * 4.0);
+
+    float density = smoothstep(0.0, 0.08, x) * (1.0 - smoothstep(0.5, 1.0, x)) * (0.4 + 0.9 * streaks);
+    vec3 color = mix(mix(vec3(1.0, 0.95, 0.85), uInsideColor, smoothstep(0.0, 0.35, x)), uOutsideColor, smoothstep(0.35, 1.0, x));
+    // Relativistic beaming: gas moving towards the viewer is brighter
+    vec3 velocity = normalize(vec3(-hit.z, 0.0, hit.x));
+    float beaming = 1.0 + 0.7 * dot(velocity, -dir);
+    float alpha = clamp(density, 0.0, 1.0);
+    return vec4(color * density * beaming * uBoost, alpha);
+  }
+
+  void main() {
+    vec3 dir = normalize(vLocal - uCamera);
+
+    // Enter the bounding sphere, or start at the camera when it is inside
+    float b = dot(uCamera, dir);
+    float h = b * b - dot(uCamera, uCamera) + uBound * uBound;
+    if (h < 0.0) discard;
+    vec3 pos = uCamera + dir * max(-b - sqrt(h), 0.0);
+
+    vec3 color = vec3(0.0);
+    float alpha = 0.0;
+
+#if STEPS > 0
+    for (int i = 0; i < STEPS; i++) {
+      float r = length(pos);
+      if (r < uHorizon) {
+        alpha = 1.0;
+        break;
+      }
+      // Finer steps near the hole, where rays bend hardest
+      float stepSize = max(r * 6.0 / float(STEPS), uHorizon * 0.05);
+      dir = normalize(dir - pos / r * (uLensing * uHorizon * stepSize / (r * r)));
+      vec3 next = pos + dir * stepSize;
+
+      if (pos.y * next.y <= 0.0 && pos.y != next.y) {
+        vec4 emission = disk(mix(pos, next, pos.y / (pos.y - next.y)), dir);
+        color += (1.0 - alpha) * emission.rgb;
+        alpha += (1.0 - alpha) * emission.a;
+      }
+      // Light skimming the photon sphere piles up into a thin bright ring
+      color += (1.0 - alpha) * uInsideColor * uBoost * 0.2 * stepSize / uHorizon * exp(-abs(r - uHorizon * 1.5) / (uHorizon * 0.08));
+
+      pos = next;
+      if (alpha > 0.99 || (dot(pos, pos) > uBound * uBound && dot(pos, dir) > 0.0)) break;
+    }
+#else
+    float tHole = 1e6;
+    float hh = b * b - dot(uCamera, uCamera) + uHorizon * uHorizon;
+    if (hh > 0.0 && -b - sqrt(hh) > 0.0) tHole = -b - sqrt(hh);
+    float tDisk = abs(dir.y) > 1e-4 ? -uCamera.y / dir.y : -1.0;
+    if (tDisk > 0.0 && tDisk < tHole) {
+      vec4 emission = disk(uCamera + dir * tDisk, dir);
+      color = emission.rgb;
+      alpha = emission.a;
+    }
+    if (tHole < 1e6) alpha = 1.0;
+#endif
+
+    gl_FragColor = vec4(color, alpha) * uOpacity;
+  }
+`;
+
+export interface BlackHoleUniforms {
+  uTime: THREE.IUniform<number>;
+  uCamera: THREE.IUniform<THREE.Vector3>;
+  uHorizon: THREE.IUniform<number>;
+  uInner: THREE.IUniform<number>;
+  uOuter: THREE.IUniform<number>;
+  uLensing: THREE.IUniform<number>;
+  uSpin: THREE.IUniform<number>;
+  uBound: THREE.IUniform<number>;
+  uBoost: THREE.IUniform<number>;
+  uOpacity: THREE.IUniform<number>;
+  uInsideColor: THREE.IUniform<THREE.Color>;
+  uOutsideColor: THREE.IUniform<THREE.Color>;
+}
+
+export const createBlackHoleMaterial = ({ horizon, disk, lensing, spin }: BlackHoleSpec, steps: number) =>
+  new THREE.ShaderMaterial({
+    vertexShader,
+    fragmentShader,
+    defines: { STEPS: steps },
+    uniforms: {
+      uTime: { value: 0 },
+      uCamera: { value: new THREE.Vector3() },
+      uHorizon: { value: horizon },
+      uInner: { value: disk[0] },
+      uOuter: { value: disk[1] },
+      uLensing: { value: lensing },
+      uSpin: { value: spin },
+      uBound: { value: disk[1] * BLACK_HOLE_BOUND },
+      uBoost: { value: 1 },
+      uOpacity: { value: 1 },
+      uInsideColor: { value: new THREE.Color() },
+      uOutsideColor: { value: new THREE.Color() },
+    },
+    side: THREE.BackSide,
+    transparent: true,
+    premultipliedAlpha: true,
+    depthWrite: false,
+  }) as THREE.ShaderMaterial & { uniforms: BlackHoleUniforms };
@@ -0,0 +1,60 @@
+import * as THREE from 'three';
+
+/**
+ * Last full-screen pass, after tone mapping: chromatic aberration, vignette and film grain.
+ * Each effect scales with its own uniform, so a zero strength switches it off.
+ */
+export const FinishShader = {
+  name: 'FinishShader',
+
+  uniforms: {
+    tDiffuse: { value: null as THREE.Texture | null },
+    uTime: { value: 0 },
+    uVignette: { value: 0 },
+    uGrain: { value: 0 },
+    uAberration: { value: 0 },
+  },
+
+  vertexShader: /* glsl */ `
+    varying vec2 vUv;
+
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+
+  fragmentShader: /* glsl */ `
+    uniform sampler2D tDiffuse;
+    uniform float uTime;
+    uniform float uVignette;
+    uniform float uGrain;
+    uniform float uAberration;
+
+    varying vec2 vUv;
+
+    float hash(vec2 p) {
+      return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+    }
+
+    void main() {
+      vec2 fromCenter = vUv - 0.5;
+
+      // Red and blue split apart towards the edges, like a cheap lens
+      vec2 shift = fromCenter * dot(fromCenter, fromCenter) * uAberration;
+      vec4 color = texture2D(tDiffuse, vUv);
+      color.r = texture2D(tDiffuse, vUv + shift).r;
+      color.b = texture2D(tDiffuse, vUv - shift).b;
+
+      float vignette = smoothstep(0.8, 0.2, length(fromCenter));
+      color.rgb *= mix(1.0, vignette, uVignette);
+
+      // Grain is strongest in the mid-tones, where film shows it most
+      float luma = dot(color.rgb, vec3(0.299, 0.587, 0.114));
+      float noise = hash(vUv * 1000.0 + fract(uTime) * 100.0) - 0.5;
+      color.rgb += noise * uGrain * mix(0.5, 1.0, 1.0 - abs(luma - 0.5) * 2.0);
+
+      gl_FragColor = color;
+    }
+  `,
+};
@@ -0,0 +1,94 @@
+import * as THREE from 'three';
+import { DIFFERENTIAL_ROTATION, REFERENCE_RADIUS } from '../utils/galaxy';
+
+/**
+ * Point material that moves every star along its orbit on the GPU.
+ * Each star stores its time-zero position and orbital radius; the vertex shader rotates it
+ * by orbitalAngle(radius, uTime), the same function the CPU uses for embedded star systems.
+ * While uMorph runs from 0 to 1, stars travel from their previous layout (the *From attributes) to the current one.
+ */
+const vertexShader = /* glsl */ `
+  uniform float uTime;
+  uniform float uSize;
+  uniform float uScale;
+  uniform float uMorph;
+
+  attribute float aRadius;
+  attribute vec3 aPositionFrom;
+  attribute float aRadiusFrom;
+  attribute vec3 aColorFrom;
+  varying vec3 vColor;
+
+  #include <fog_pars_vertex>
+
+  float orbitalAngle(float radius, float time) {
+    return time * (1.0 + ${DIFFERENTIAL_ROTATION.toFixed(4)}) / (1.0 + ${DIFFERENTIAL_ROTATION.toFixed(4)} * radius / ${REFERENCE_RADIUS.toFixed(4)});
+  }
+
+  void main() {
+    float morph = smoothstep(0.0, 1.0, uMorph);
+    vec3 start = mix(aPositionFrom, position, morph);
+
+    // Rotation around +Y, matching Object3D.rotation.y / Vector3.applyAxisAngle
+    float angle = orbitalAngle(mix(aRadiusFrom, aRadius, morph), uTime);
+    float c = cos(angle);
+    float s = sin(angle);
+    vec3 orbiting = vec3(c * start.x + s * start.z, start.y, -s * start.x + c * start.z);
+
+    vec4 mvPosition = modelViewMatrix * vec4(orbiting, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    gl_PointSize = uSize * (uScale / -mvPosition.z);
+
+    vColor = mix(aColorFrom, color, morph);
+
+    #include <fog_vertex>
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform float uOpacity;
+  varying vec3 vColor;
+
+  #include <fog_pars_fragment>
+
+  void main() {
+    // Round, softly antialiased points
+    vec2 cxy = 2.0 * gl_PointCoord - 1.0;
+    float r = dot(cxy, cxy);
+    float delta = fwidth(r);
+    float mask = 1.0 - smoothstep(1.0 - delta, 1.0 + delta, r);
+
+    gl_FragColor = vec4(vColor, mask * uOpacity);
+
+    #include <fog_fragment>
+  }
+`;
+
+export interface GalaxyMaterialUniforms {
+  uTime: THREE.IUniform<number>;
+  uSize: THREE.IUniform<number>;
+  uScale: THREE.IUniform<number>;
+  uOpacity: THREE.IUniform<number>;
+  uMorph: THREE.IUniform<number>;
+}
+
+export const createGalaxyMaterial = (size: number, opacity: number) =>
+  new THREE.ShaderMaterial({
+    vertexShader,
+    fragmentShader,
+    uniforms: THREE.UniformsUtils.merge([
+      THREE.UniformsLib.fog,
+      {
+        uTime: { value: 0 },
+        uSize: { value: size },
+        uScale: { value: 1 },
+        uOpacity: { value: opacity },
+        uMorph: { value: 1 },
+      },
+    ]),
+    vertexColors: true,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+    fog: true,
+  }) as THREE.ShaderMaterial & { uniforms: GalaxyMaterialUniforms };
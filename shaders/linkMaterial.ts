@@ -0,0 +1,110 @@
+import * as THREE from 'three';
+
+/**
+ * Materials for the relationship arcs between star systems. The arc geometry is rebuilt on the CPU as
+ * systems move; each vertex stores how far along its arc it sits (aProgress, 0 at the source), so the
+ * shaders can send pulses from source to target. aEmphasis is 0 for arcs dimmed behind a hovered
+ * system's own links, 0.5 at rest and 1 for the hovered system's links.
+ */
+const arcVertexShader = /* glsl */ `
+  uniform float uTime;
+
+  attribute float aProgress;
+  attribute float aSpeed;
+  attribute float aEmphasis;
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  void main() {
+    // Four pulses per arc, travelling as fast as the particles
+    float pulse = pow(0.5 + 0.5 * sin((aProgress - uTime * aSpeed) * 4.0 * 6.2831853), 6.0);
+    // Ends fade out so arcs melt into the systems' glow
+    float ends = smoothstep(0.0, 0.1, aProgress) * smoothstep(1.0, 0.9, aProgress);
+
+    vAlpha = ends * (0.3 + 0.7 * pulse) * mix(0.08, 1.0, aEmphasis);
+    vColor = color;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+const arcFragmentShader = /* glsl */ `
+  uniform float uOpacity;
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  void main() {
+    gl_FragColor = vec4(vColor, vAlpha * uOpacity);
+  }
+`;
+
+const particleVertexShader = /* glsl */ `
+  uniform float uSize;
+  uniform float uScale;
+
+  attribute float aEmphasis;
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  void main() {
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    gl_PointSize = uSize * (0.6 + aEmphasis) * (uScale / -mvPosition.z);
+
+    vAlpha = mix(0.1, 1.0, aEmphasis);
+    vColor = color;
+  }
+`;
+
+const particleFragmentShader = /* glsl */ `
+  uniform float uOpacity;
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  void main() {
+    // Soft glowing dots, brightest in the middle
+    float glow = 1.0 - smoothstep(0.0, 0.5, length(gl_PointCoord - 0.5));
+    gl_FragColor = vec4(vColor, glow * glow * vAlpha * uOpacity);
+  }
+`;
+
+export interface LinkArcUniforms {
+  uTime: THREE.IUniform<number>;
+  uOpacity: THREE.IUniform<number>;
+}
+
+export interface LinkParticleUniforms {
+  uSize: THREE.IUniform<number>;
+  uScale: THREE.IUniform<number>;
+  uOpacity: THREE.IUniform<number>;
+}
+
+const additive = {
+  vertexColors: true,
+  transparent: true,
+  depthWrite: false,
+  blending: THREE.AdditiveBlending,
+  toneMapped: false,
+};
+
+export const createLinkArcMaterial = () =>
+  new THREE.ShaderMaterial({
+    vertexShader: arcVertexShader,
+    fragmentShader: arcFragmentShader,
+    uniforms: {
+      uTime: { value: 0 },
+      uOpacity: { value: 0 },
+    },
+    ...additive,
+  }) as THREE.ShaderMaterial & { uniforms: LinkArcUniforms };
+
+export const createLinkParticleMaterial = (size: number) =>
+  new THREE.ShaderMaterial({
+    vertexShader: particleVertexShader,
+    fragmentShader: particleFragmentShader,
+    uniforms: {
+      uSize: { value: size },
+      uScale: { value: 1 },
+      uOpacity: { value: 0 },
+    },
+    ...additive,
+  }) as THREE.ShaderMaterial & { uniforms: LinkParticleUniforms };
@@ -0,0 +1,106 @@
+import * as THREE from 'three';
+import { DIFFERENTIAL_ROTATION, REFERENCE_RADIUS } from '../utils/galaxy';
+
+/**
+ * Instanced billboard material for the nebula clouds. Each instance is a camera-facing sprite that orbits
+ * with the stars at its radius (the same orbitalAngle as the galaxy shader) and is filled with drifting
+ * fractal noise. Sprites fade as the camera closes in, so flying through a cloud never fills the screen.
+ */
+const vertexShader = /* glsl */ `
+  uniform float uTime;
+
+  attribute vec3 aCenter;
+  attribute vec3 aColor;
+  attribute float aSize;
+  attribute float aRotation;
+  attribute float aSeed;
+  varying vec2 vUv;
+  varying vec3 vColor;
+  varying float vSeed;
+  varying float vFade;
+
+  float orbitalAngle(float radius, float time) {
+    return time * (1.0 + ${DIFFERENTIAL_ROTATION.toFixed(4)}) / (1.0 + ${DIFFERENTIAL_ROTATION.toFixed(4)} * radius / ${REFERENCE_RADIUS.toFixed(4)});
+  }
+
+  void main() {
+    float angle = orbitalAngle(length(aCenter.xz), uTime);
+    float c = cos(angle);
+    float s = sin(angle);
+    vec3 center = vec3(c * aCenter.x + s * aCenter.z, aCenter.y, -s * aCenter.x + c * aCenter.z);
+
+    // Billboard in view space, spun by the instance's own rotation
+    vec4 mvPosition = modelViewMatrix * vec4(center, 1.0);
+    float cr = cos(aRotation);
+    float sr = sin(aRotation);
+    mvPosition.xy += mat2(cr, sr, -sr, cr) * position.xy * aSize;
+    gl_Position = projectionMatrix * mvPosition;
+
+    vUv = position.xy * 2.0;
+    vColor = aColor;
+    vSeed = aSeed;
+    vFade = smoothstep(aSize * 0.3, aSize * 1.5, -mvPosition.z);
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform float uTime;
+  uniform float uOpacity;
+  varying vec2 vUv;
+  varying vec3 vColor;
+  varying float vSeed;
+  varying float vFade;
+
+  float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+  }
+
+  float noise(vec2 p) {
+    vec2 i = floor(p);
+    vec2 f = fract(p);
+    vec2 u = f * f * (3.0 - 2.0 * f);
+    return mix(mix(hash(i), hash(i + vec2(1.0, 0.0)), u.x), mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0, 1.0)), u.x), u.y);
+  }
+
+  float fbm(vec2 p) {
+    float value = 0.0;
+    float amplitude = 0.5;
+    for (int i = 0; i < 4; i++) {
+      value += amplitude * noise(p);
+      p = p * 2.03 + vec2(1.7, 9.2);
+      amplitude *= 0.5;
+    }
+    return value;
+  }
+
+  void main() {
+    float d = length(vUv);
+    if (d > 1.0) discard;
+
+    vec2 p = vUv * 1.8 + vSeed * 37.0;
+    // Domain warping gives the wisps their curl
+    vec2 warp = vec2(fbm(p + uTime * 0.4), fbm(p - uTime * 0.3 + 4.1));
+    float density = smoothstep(0.35, 0.85, fbm(p + warp * 1.5));
+    float falloff = pow(1.0 - d, 2.0);
+
+    gl_FragColor = vec4(vColor * density * falloff * vFade * uOpacity, 1.0);
+  }
+`;
+
+export interface NebulaMaterialUniforms {
+  uTime: THREE.IUniform<number>;
+  uOpacity: THREE.IUniform<number>;
+}
+
+export const createNebulaMaterial = (opacity: number) =>
+  new THREE.ShaderMaterial({
+    vertexShader,
+    fragmentShader,
+    uniforms: {
+      uTime: { value: 0 },
+      uOpacity: { value: opacity },
+    },
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  }) as THREE.ShaderMaterial & { uniforms: NebulaMaterialUniforms };
@@ -0,0 +1,55 @@
+import * as THREE from 'three';
+
+/**
+ * Line material for planet orbit trails. The orbit geometry never changes: each vertex stores where along
+ * its orbit it sits (aPhase), and the shader works out from uTime how far behind the planet that is,
+ * fading the line out over uLength orbits.
+ */
+const vertexShader = /* glsl */ `
+  uniform float uTime;
+  uniform float uLength;
+
+  attribute float aPhase;   // Fraction of the orbit from periapsis
+  attribute float aStart;   // The planet's phase at time zero
+  attribute float aPeriod;
+  varying vec3 vColor;
+  varying float vFade;
+
+  void main() {
+    float behind = fract(aStart + uTime / aPeriod - aPhase);
+    vFade = 1.0 - smoothstep(0.0, uLength, behind);
+    vColor = color;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform float uOpacity;
+  varying vec3 vColor;
+  varying float vFade;
+
+  void main() {
+    gl_FragColor = vec4(vColor, vFade * vFade * uOpacity);
+  }
+`;
+
+export interface OrbitTrailUniforms {
+  uTime: THREE.IUniform<number>;
+  uLength: THREE.IUniform<number>;
+  uOpacity: THREE.IUniform<number>;
+}
+
+export const createOrbitTrailMaterial = (length: number, opacity: number) =>
+  new THREE.ShaderMaterial({
+    vertexShader,
+    fragmentShader,
+    uniforms: {
+      uTime: { value: 0 },
+      uLength: { value: length },
+      uOpacity: { value: opacity },
+    },
+    vertexColors: true,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  }) as THREE.ShaderMaterial & { uniforms: OrbitTrailUniforms };
@@ -0,0 +1,410 @@
+export type Vec3Tuple = [number, number, number];
+
+export interface CameraPose {
+  position: Vec3Tuple;
+  target: Vec3Tuple;
+}
+
+/**
+ * Shape, color and size of the procedural spiral galaxy
+ */
+export type MorphologyId = 'spiral' | 'barred' | 'elliptical' | 'irregular' | 'ring';
+
+/**
+ * A tunable parameter specific to one morphology
+ */
+export interface MorphologyParamSpec {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export interface GalaxyParams {
+  morphology: MorphologyId;
+  // Values for the morphology's own parameters; missing ones use their defaults
+  morphologyParams: Record<string, number>;
+  radius: number;
+  branches: number;
+  spin: number;
+  randomness: number;
+  randomnessPower: number;
+  insideColor: string;
+  outsideColor: string;
+  starCount: number;
+  // The looser outer dust layer reuses the morphology with its own spread
+  dustCount: number;
+  dustRadius: number;
+  dustRandomness: number;
+}
+
+// Numeric fields of GalaxyParams, each with an allowed range (see PARAM_RANGES)
+export type GalaxyNumericKey = { [K in keyof GalaxyParams]: GalaxyParams[K] extends number ? K : never }[keyof GalaxyParams];
+
+export interface GalaxyPreset {
+  name: string;
+  params: GalaxyParams;
+}
+
+/**
+ * Colors shared by every part of a star system
+ */
+export interface StarSystemPalette {
+  core: string;   // Star core (usually white, rendered without tone mapping)
+  star: string;   // Main tint for halos, rings and particles
+  glow: string;   // Secondary tint for outer halos and rings
+  accent: string; // Label highlight text
+}
+
+/**
+ * An additive halo sphere stacked around the star core
+ */
+export interface HaloSpec {
+  radius: number;
+  color: keyof StarSystemPalette;
+  opacity: number;
+}
+
+/**
+ * A thin torus orbiting the star
+ */
+export interface RingSpec {
+  radius: number;
+  tube: number;
+  rotation: Vec3Tuple;
+  color: keyof StarSystemPalette;
+  opacity: number;
+}
+
+/**
+ * Planets on Keplerian orbits around the star. Orbital elements are drawn from these ranges with the
+ * system's seeded random stream; periods follow Kepler's third law from the semi-major axis.
+ * Colors are cycled by planet index, innermost first.
+ */
+export interface PlanetSpec {
+  count: number;
+  semiMajorAxis: [min: number, max: number];
+  eccentricity: [min: number, max: number];
+  inclination: number; // Largest tilt from the system's plane, in radians
+  period: number;      // Simulation seconds per orbit at a semi-major axis of 1
+  colors: string[];
+  size: [min: number, max: number];
+  trail: number;       // Fraction of an orbit the fading trail covers
+}
+
+/**
+ * Classical orbital elements of one planet, angles in radians
+ */
+export interface PlanetOrbit {
+  semiMajorAxis: number;
+  eccentricity: number;
+  inclination: number;
+  ascendingNode: number;
+  periapsis: number;   // Argument of periapsis
+  phase: number;       // Fraction of an orbit completed at time zero
+  period: number;      // Simulation seconds
+}
+
+export interface Planet {
+  id: string;          // e.g. golden-b
+  name: string;        // e.g. GoldenSystem b
+  orbit: PlanetOrbit;
+  size: number;
+  color: string;
+}
+
+/**
+ * A spherical cloud of points whose density falls off from the center
+ */
+export interface ParticleCloudSpec {
+  count: number;
+  radius: number;
+  falloff: number;
+  size: number;
+  opacity: number;
+  spin: Vec3Tuple; // Radians per second around each axis
+  breath: { amplitude: number; frequency: number };
+}
+
+/**
+ * A system's tonal signature, faded in while it is hovered or focused. Notes are MIDI note numbers.
+ * A shimmer holds a chord of detuned sines under a slow tremolo; plucks sound as each planet passes periapsis.
+ */
+export type SystemSoundSpec =
+  | { kind: 'shimmer'; notes: number[]; tremolo: number; gain: number } // Tremolo rate in Hz
+  | { kind: 'pluck'; notes: number[]; decay: number; gain: number };    // Decay in seconds; planet i plays notes[i % length]
+
+/**
+ * A black hole with a glowing accretion disk, drawn in place of a star core.
+ * Sizes are in the system's local units; the disk is colored from the galaxy's own colors.
+ */
+export interface BlackHoleSpec {
+  horizon: number;                     // Event horizon radius
+  disk: [inner: number, outer: number];
+  lensing: number;                     // How strongly light bends towards the horizon
+  tilt: number;                        // Disk inclination from the galaxy plane, in radians
+  spin: number;                        // Disk turns per simulation second at its inner edge
+}
+
+/**
+ * Rich content shown in the detail panel when a system is selected
+ */
+export interface StarSystemDetails {
+  subtitle: string;
+  body: string[];
+  stats: { label: string; value: string }[];
+  links: { label: string; href: string }[];
+  actions: { label: string; href: string; primary?: boolean }[];
+}
+
+export interface StarSystemDefinition {
+  id: string;
+
+  // Placement on the galaxy; the system orbits with the stars at its radius
+  arm: number;
+  radius: number;
+
+  palette: StarSystemPalette;
+  coreRadius: number;
+  halos: HaloSpec[];
+  hitRadius: number;
+  hoverScale: number;
+
+  rings: RingSpec[];
+  ringSpin: Vec3Tuple;
+  planets?: PlanetSpec;
+  cloud?: ParticleCloudSpec;
+  blackHole?: BlackHoleSpec;
+  sound?: SystemSoundSpec;
+
+  label: {
+    title: string;
+    highlight: string;
+    offset: Vec3Tuple;
+    distanceFactor: number;
+  };
+  description: string[];
+  details: StarSystemDetails;
+  // Interactive demo embedded in the detail panel
+  demo?: 'sqlConsole';
+
+  // Camera offset from the system while it is selected
+  selectionOffset: Vec3Tuple;
+}
+
+export type RelationshipKind = 'dataFlow' | 'dependency' | 'integration';
+
+/**
+ * A directed link between two star systems, drawn as an arc with particles flowing from `from` to `to`
+ */
+export interface RelationshipEdge {
+  from: string;
+  to: string;
+  kind: RelationshipKind;
+}
+
+export interface RelationshipStyle {
+  color: string;
+  speed: number; // Particle trips along the arc per simulation second
+}
+
+export type EasingName = 'linear' | 'easeInCubic' | 'easeOutCubic' | 'easeInOutCubic' | 'easeInOutSine';
+
+/**
+ * Where the camera sits at a tour waypoint: a fixed point, or an offset from a (moving) star system
+ */
+export type TourShot =
+  | { kind: 'point'; position: Vec3Tuple; lookAt: Vec3Tuple }
+  | { kind: 'system'; systemId: string; offset: Vec3Tuple };
+
+export interface TourWaypoint {
+  shot: TourShot;
+  duration: number; // Seconds spent flying to this waypoint
+  hold: number;     // Seconds spent at the waypoint before moving on
+  easing: EasingName;
+  caption: { title: string; text: string };
+}
+
+export interface TourDefinition {
+  id: string;
+  title: string;
+  waypoints: TourWaypoint[];
+}
+
+export interface TourPlayback {
+  tourId: string;
+  index: number;
+  paused: boolean;
+}
+
+/**
+ * Shared simulation clock controls; the time itself lives in a ref, as it changes every frame
+ */
+export interface SimulationPlayback {
+  playing: boolean;
+  speed: number;   // Simulation seconds per real second, negative to run backwards
+}
+
+export type QualityTier = 'low' | 'medium' | 'high';
+export type QualitySetting = QualityTier | 'auto';
+
+export type PostEffect = 'bloom' | 'vignette' | 'grain' | 'chromaticAberration' | 'depthOfField';
+export type PostEffectToggles = Record<PostEffect, boolean>;
+
+/**
+ * What each quality tier renders
+ */
+export interface QualitySettings {
+  particleScale: number;   // Multiplier on galaxy and cluster particle counts
+  maxDpr: number;
+  sphereSegments: number;
+  backgroundStars: number;
+  nebulaLayers: number;    // Sprites stacked per nebula cloud; 0 hides the nebulae
+  lensingSteps: number;    // Raymarch steps through the black hole's gravity; 0 draws it without bending light
+  postEffects: PostEffect[];   // Effects this tier can afford; the user can still switch them off
+}
+
+/**
+ * Rolling render statistics, sampled a few times per second
+ */
+export interface PerformanceStats {
+  fps: number;
+  frameMs: number;
+  drawCalls: number;
+  triangles: number;
+  points: number;
+}
+
+/**
+ * Particle buffers generated off the main thread, keyed by everything that shapes them
+ */
+export interface GalaxyJob {
+  kind: 'galaxy';
+  count: number;
+  params: GalaxyParams;
+  seed: number;
+  stream: string;   // Named random stream, see createRandom
+}
+
+export interface CloudJob {
+  kind: 'cloud';
+  count: number;
+  cloud: ParticleCloudSpec;
+  seed: number;
+  stream: string;
+}
+
+export interface NebulaJob {
+  kind: 'nebula';
+  count: number;    // Sprites: clouds times layers
+  params: GalaxyParams;
+  layers: number;
+  seed: number;
+  stream: string;
+}
+
+export type BufferJob = GalaxyJob | CloudJob | NebulaJob;
+
+export interface GalaxyBuffers {
+  positions: Float32Array;
+  colors: Float32Array;
+  radii: Float32Array;   // Orbital radius per star, for the galaxy shader
+}
+
+export interface CloudBuffers {
+  positions: Float32Array;
+}
+
+/**
+ * Instanced sprites making up the nebula clouds; every layer of a cloud is one sprite
+ */
+export interface NebulaBuffers {
+  centers: Float32Array;     // Time-zero positions, orbited by the nebula shader like the stars
+  colors: Float32Array;
+  sizes: Float32Array;
+  rotations: Float32Array;
+  seeds: Float32Array;       // Offsets into the noise, so no two sprites look alike
+}
+
+export type BufferResult<J extends BufferJob> = J extends GalaxyJob ? GalaxyBuffers : J extends NebulaJob ? NebulaBuffers : CloudBuffers;
+
+export interface BufferProgress {
+  done: number;    // Particles generated so far across queued jobs
+  total: number;
+}
+
+/**
+ * Capture settings chosen in the capture panel
+ */
+export interface StillCaptureRequest {
+  width: number;
+  includeUI: boolean;
+}
+
+export interface VideoCaptureRequest extends StillCaptureRequest {
+  duration: number;   // Seconds
+  fps: number;
+}
+
+export type SoundCue = 'explore' | 'return';
+
+export type Locale = 'zh-CN' | 'en';
+
+/**
+ * Translated copy of a star system. Lists follow the order of the definition's own stats, links and actions.
+ */
+export interface StarSystemContent {
+  description: string[];
+  subtitle: string;
+  body: string[];
+  stats: string[];
+  links: string[];
+  actions: string[];
+}
+
+export interface TourContent {
+  title: string;
+  // One per waypoint, in order
+  captions: TourWaypoint['caption'][];
+}
+
+export interface MorphologyContent {
+  label: string;
+  params: Record<string, string>;
+}
+
+/**
+ * Translations of the content authored in data/ and the morphology registry, which is written in English.
+ * Anything missing falls back to the English original.
+ */
+export interface LocaleContent {
+  systems: Record<string, StarSystemContent>;
+  tours: Record<string, TourContent>;
+  morphologies: Partial<Record<MorphologyId, MorphologyContent>>;
+}
+
+/**
+ * One message in a conversation with the narrator
+ */
+export interface NarratorTurn {
+  role: 'user' | 'narrator';
+  text: string;
+}
+
+export interface NarratorRequest {
+  // Already localized, so the narrator can quote its copy
+  system: StarSystemDefinition;
+  locale: Locale;
+  // The conversation so far. Empty asks for the opening description; otherwise the last turn is the question.
+  turns: NarratorTurn[];
+}
+
+/**
+ * A text generator behind the narrator. Replies are streamed in chunks, and stop with an error when `signal` aborts.
+ */
+export interface NarratorProvider {
+  id: 'gemini' | 'mock';
+  stream: (request: NarratorRequest, signal: AbortSignal) => AsyncIterable<string>;
+}
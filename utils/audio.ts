@@ -0,0 +1,268 @@
+import { SoundCue, SystemSoundSpec } from '../types';
+
+/**
+ * Web Audio soundscape: an ambient drone, per-system tonal signatures and UI cues.
+ * Browsers only allow audio after a user gesture, so nothing is created until `unlockAudio` runs from one.
+ * This is a module-level store like the locale, so the overlay's mute toggle and the scene share it.
+ */
+export interface AudioState {
+  muted: boolean;
+  // A gesture has allowed audio this session
+  unlocked: boolean;
+}
+
+const STORAGE_KEY = 'cosmos.muted';
+
+const MASTER_VOLUME = 0.6;
+// Seconds for volume and timbre changes to settle, as setTargetAtTime time constants
+const FADE = 0.15;
+const GLIDE = 0.6;
+
+// The drone brightens as the camera nears the galaxy core
+const DRONE = {
+  root: 33,          // MIDI A1
+  near: 2,
+  far: 24,
+  cutoff: [140, 1600] as const,
+  overtones: 0.18,   // Peak gain of the upper layer, reached at the core
+  wobble: 0.04,      // Filter LFO rate in Hz
+};
+
+const CUES: Record<SoundCue, number[]> = {
+  explore: [69, 76, 81],
+  return: [81, 76, 69],
+};
+
+const loadMuted = () => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+let state: AudioState = { muted: loadMuted(), unlocked: false };
+const listeners = new Set<() => void>();
+
+let context: AudioContext | null = null;
+let master: GainNode | null = null;
+let drone: { filter: BiquadFilterNode; overtones: GainNode } | null = null;
+const voices = new Map<string, GainNode>();
+let suspendTimer: ReturnType<typeof setTimeout> | undefined;
+
+const midiToFrequency = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+const audible = () => state.unlocked && !state.muted && !document.hidden;
+
+const oscillator = (audio: AudioContext, type: OscillatorType, frequency: number, detune = 0) => {
+  const node = audio.createOscillator();
+  node.type = type;
+  node.frequency.value = frequency;
+  node.detune.value = detune;
+  return node;
+};
+
+/**
+ * Two detuned saws and a fifth under a slowly wandering low-pass, with a brighter octave layer on top
+ */
+const createDrone = (audio: AudioContext, output: AudioNode) => {
+  const root = midiToFrequency(DRONE.root);
+  const filter = audio.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = DRONE.cutoff[0];
+  filter.Q.value = 2;
+  const body = audio.createGain();
+  body.gain.value = 0.2;
+  filter.connect(body).connect(output);
+
+  const sources = [
+    oscillator(audio, 'sawtooth', root, -6),
+    oscillator(audio, 'sawtooth', root, 6),
+    oscillator(audio, 'sine', root * 1.5),
+  ];
+  sources.forEach((source) => source.connect(filter));
+
+  const overtones = audio.createGain();
+  overtones.gain.value = 0;
+  overtones.connect(filter);
+  const upper = [oscillator(audio, 'triangle', root * 4, -4), oscillator(audio, 'triangle', root * 6, 4)];
+  upper.forEach((source) => source.connect(overtones));
+
+  const wobble = oscillator(audio, 'sine', DRONE.wobble);
+  const depth = audio.createGain();
+  depth.gain.value = 60;
+  wobble.connect(depth).connect(filter.frequency);
+
+  [...sources, ...upper, wobble].forEach((source) => source.start());
+  return { filter, overtones };
+};
+
+const ensureContext = () => {
+  if (context || typeof AudioContext === 'undefined') return context;
+  context = new AudioContext();
+  const compressor = context.createDynamicsCompressor();
+  compressor.connect(context.destination);
+  master = context.createGain();
+  master.gain.value = 0;
+  master.connect(compressor);
+  drone = createDrone(context, master);
+  return context;
+};
+
+/**
+ * Fades the master volume in or out to match the state, suspending the context while silent
+ */
+const applyState = () => {
+  clearTimeout(suspendTimer);
+  if (audible()) {
+    const audio = ensureContext();
+    if (!audio || !master) return;
+    audio.resume();
+    master.gain.setTargetAtTime(MASTER_VOLUME, audio.currentTime, FADE);
+  } else if (context && master) {
+    const audio = context;
+    master.gain.setTargetAtTime(0, audio.currentTime, FADE);
+    suspendTimer = setTimeout(() => audio.suspend(), FADE * 5000);
+  }
+};
+
+const update = (next: AudioState) => {
+  state = next;
+  applyState();
+  listeners.forEach((listener) => listener());
+};
+
+export const getAudioState = () => state;
+
+export const subscribeAudio = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Call from a user gesture; starts the soundscape unless the user muted it
+ */
+export const unlockAudio = () => {
+  if (!state.unlocked) update({ ...state, unlocked: true });
+};
+
+export const setMuted = (muted: boolean) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, String(muted));
+  } catch {
+    // Storage unavailable
+  }
+  // Unmuting is itself a gesture
+  update({ muted, unlocked: state.unlocked || !muted });
+};
+
+// Background tabs go quiet
+if (typeof document !== 'undefined') document.addEventListener('visibilitychange', applyState);
+
+/**
+ * Tunes the drone to the camera's distance from the galaxy core
+ */
+export const setDroneDistance = (distance: number) => {
+  if (!context || !drone) return;
+  const closeness = 1 - Math.min(Math.max((distance - DRONE.near) / (DRONE.far - DRONE.near), 0), 1);
+  const [dark, bright] = DRONE.cutoff;
+  // Exponential, so equal camera steps sound like equal changes in brightness
+  drone.filter.frequency.setTargetAtTime(dark * Math.pow(bright / dark, closeness), context.currentTime, GLIDE);
+  drone.overtones.gain.setTargetAtTime(closeness * closeness * DRONE.overtones, context.currentTime, GLIDE);
+};
+
+/**
+ * The output of a system's voice, created on first use. Shimmers sound continuously and are faded by this gain.
+ */
+const systemVoice = (id: string, sound: SystemSoundSpec) => {
+  const audio = context;
+  if (!audio || !master) return null;
+  const existing = voices.get(id);
+  if (existing) return existing;
+
+  const output = audio.createGain();
+  output.gain.value = 0;
+  output.connect(master);
+  voices.set(id, output);
+
+  if (sound.kind === 'shimmer') {
+    const tremolo = audio.createGain();
+    tremolo.gain.value = 0.7;
+    tremolo.connect(output);
+    const lfo = oscillator(audio, 'sine', sound.tremolo);
+    const depth = audio.createGain();
+    depth.gain.value = 0.3;
+    lfo.connect(depth).connect(tremolo.gain);
+    lfo.start();
+
+    const mix = audio.createGain();
+    mix.gain.value = 1 / (sound.notes.length * 2);
+    mix.connect(tremolo);
+    // A pair of slightly detuned sines per note gives the chord its slow beating
+    sound.notes.forEach((note) => {
+      [-5, 5].forEach((cents) => {
+        const source = oscillator(audio, 'sine', midiToFrequency(note), cents);
+        source.connect(mix);
+        source.start();
+      });
+    });
+  }
+  return output;
+};
+
+/**
+ * Fades a system's signature towards `level` (0 to 1), e.g. 1 while it is hovered or focused
+ */
+export const setSystemLevel = (id: string, sound: SystemSoundSpec, level: number) => {
+  const voice = systemVoice(id, sound);
+  if (!context || !voice) return;
+  voice.gain.setTargetAtTime(level * sound.gain, context.currentTime, level > 0 ? GLIDE : FADE * 2);
+};
+
+/**
+ * A single plucked note of a system's signature, heard only as loud as the system's level allows
+ */
+export const pluck = (id: string, sound: SystemSoundSpec, index: number) => {
+  if (sound.kind !== 'pluck' || !audible()) return;
+  const voice = systemVoice(id, sound);
+  if (!context || !voice) return;
+
+  const start = context.currentTime;
+  const frequency = midiToFrequency(sound.notes[index % sound.notes.length]);
+  const source = oscillator(context, 'triangle', frequency);
+  // The tone darkens as it rings out, like a string
+  const filter = context.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.setValueAtTime(frequency * 8, start);
+  filter.frequency.exponentialRampToValueAtTime(frequency * 1.5, start + sound.decay);
+  const envelope = context.createGain();
+  envelope.gain.setValueAtTime(0, start);
+  envelope.gain.linearRampToValueAtTime(1, start + 0.005);
+  envelope.gain.exponentialRampToValueAtTime(0.001, start + sound.decay);
+
+  source.connect(filter).connect(envelope).connect(voice);
+  source.start(start);
+  source.stop(start + sound.decay + 0.05);
+};
+
+/**
+ * A short arpeggio confirming a navigation step
+ */
+export const playCue = (cue: SoundCue) => {
+  const audio = context;
+  const output = master;
+  if (!audible() || !audio || !output) return;
+  CUES[cue].forEach((note, i) => {
+    const at = audio.currentTime + i * 0.07;
+    const source = oscillator(audio, 'sine', midiToFrequency(note));
+    const envelope = audio.createGain();
+    envelope.gain.setValueAtTime(0, at);
+    envelope.gain.linearRampToValueAtTime(0.12, at + 0.01);
+    envelope.gain.exponentialRampToValueAtTime(0.001, at + 0.5);
+    source.connect(envelope).connect(output);
+    source.start(at);
+    source.stop(at + 0.55);
+  });
+};
@@ -0,0 +1,214 @@
+import { BufferJob, BufferProgress, BufferResult, CloudBuffers, GalaxyBuffers, NebulaBuffers } from '../types';
+import type { BufferRequest, BufferResponse } from '../workers/galaxy.worker';
+
+type Buffers = GalaxyBuffers | CloudBuffers | NebulaBuffers;
+
+interface CacheEntry {
+  id: number;
+  stream: string;
+  requested: number;
+  promise: Promise<Buffers>;
+  result?: Buffers;
+  failed?: boolean;
+  // Replaced by a newer job for the same stream while generating; dropped once it finishes
+  intermediate?: boolean;
+}
+
+interface PendingJob {
+  request: BufferRequest;
+  count: number;
+  generated: number;
+  resolve: (buffers: Buffers) => void;
+  reject: (error: Error) => void;
+}
+
+// Finished buffer sets kept so switching back to a preset or seed is instant
+const MAX_CACHED = 16;
+// Jobs replaced sooner than this after they were requested are in-between states, e.g. a dragged slider
+const SETTLE_MS = 1000;
+
+const cache = new Map<string, CacheEntry>();
+const pending = new Map<number, PendingJob>();
+// Jobs waiting for the worker, oldest first; only one is sent at a time so the rest can still be dropped
+const queue: number[] = [];
+const listeners = new Set<() => void>();
+
+let worker: Worker | null = null;
+let running: number | null = null;
+let nextId = 0;
+// Particles from jobs already finished in the current loading batch
+let finished = 0;
+let progress: BufferProgress = { done: 0, total: 0 };
+
+const jobKey = (job: BufferJob) => JSON.stringify(job);
+const streamKey = (job: BufferJob) => `${job.kind}:${job.stream}`;
+
+const updateProgress = () => {
+  if (pending.size === 0) {
+    finished = 0;
+    progress = { done: 0, total: 0 };
+  } else {
+    let done = finished;
+    let total = finished;
+    for (const job of pending.values()) {
+      done += job.generated;
+      total += job.count;
+    }
+    progress = { done, total };
+  }
+  listeners.forEach((listener) => listener());
+};
+
+const evict = () => {
+  for (const [key, entry] of cache) {
+    if (cache.size <= MAX_CACHED) return;
+    if (entry.result || entry.failed) cache.delete(key);
+  }
+};
+
+const getWorker = () => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('../workers/galaxy.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = ({ data }: MessageEvent<BufferResponse>) => {
+    const job = pending.get(data.id);
+    if (!job) return;
+
+    if (data.type === 'progress') {
+      job.generated = data.generated;
+    } else {
+      pending.delete(data.id);
+      running = null;
+      finished += job.count;
+      if (data.type === 'done') {
+        job.resolve(data.buffers);
+      } else {
+        job.reject(new Error(data.message));
+      }
+      sendNext();
+    }
+    updateProgress();
+  };
+  worker.onerror = (event) => {
+    for (const job of pending.values()) job.reject(new Error(event.message || 'Buffer worker failed'));
+    pending.clear();
+    queue.length = 0;
+    running = null;
+    worker = null;
+    updateProgress();
+  };
+  return worker;
+};
+
+const sendNext = () => {
+  if (running !== null) return;
+  const id = queue.shift();
+  if (id === undefined) return;
+
+  const job = pending.get(id)!;
+  running = id;
+  try {
+    getWorker().postMessage(job.request);
+  } catch (error) {
+    // e.g. module workers unsupported
+    job.reject(error instanceof Error ? error : new Error(String(error)));
+    pending.delete(id);
+    running = null;
+    sendNext();
+  }
+};
+
+/**
+ * Drops what a new request for `stream` makes obsolete: jobs still waiting for the worker, and
+ * in-between states that were only just requested. Dropped waiting jobs never settle; whoever asked
+ * for them has moved on to the new job.
+ */
+const supersede = (stream: string, current: string, now: number) => {
+  for (const [key, entry] of cache) {
+    if (entry.stream !== stream || key === current || entry.failed) continue;
+    const waiting = queue.indexOf(entry.id);
+    if (waiting >= 0) {
+      queue.splice(waiting, 1);
+      pending.delete(entry.id);
+      cache.delete(key);
+    } else if (now - entry.requested < SETTLE_MS) {
+      if (entry.result) cache.delete(key);
+      else entry.intermediate = true;
+    }
+  }
+};
+
+/**
+ * Buffers for a job, generated in the worker once and cached by parameters and seed.
+ * The same job always returns the same promise, so it can be passed straight to React's `use`.
+ * A job replaces older ones for the same stream: those still queued are dropped, and states passed
+ * through quickly (dragging a slider) are not cached.
+ */
+export const loadBuffers = <J extends BufferJob>(job: J): Promise<BufferResult<J>> => {
+  const key = jobKey(job);
+  const stream = streamKey(job);
+  const now = performance.now();
+  const cached = cache.get(key);
+  if (cached) {
+    // Refresh its place in the eviction order; wanted again, so no longer in-between
+    cache.delete(key);
+    cache.set(key, cached);
+    cached.intermediate = false;
+    supersede(stream, key, now);
+    return cached.promise as Promise<BufferResult<J>>;
+  }
+
+  supersede(stream, key, now);
+  const id = nextId++;
+  const request: BufferRequest = { id, job };
+  const entry: CacheEntry = {
+    id,
+    stream,
+    requested: now,
+    promise: new Promise<Buffers>((resolve, reject) => {
+      pending.set(id, { request, count: job.count, generated: 0, resolve, reject });
+    }),
+  };
+  entry.promise.then(
+    (buffers) => {
+      entry.result = buffers;
+      if (entry.intermediate && cache.get(key) === entry) cache.delete(key);
+      evict();
+    },
+    // Failed jobs stay failed, so every render sees the same rejection, until retryFailedBuffers
+    () => {
+      entry.failed = true;
+    }
+  );
+  cache.set(key, entry);
+
+  queue.push(id);
+  sendNext();
+  // Requests come in during render (see useBuffers), when subscribers must not be updated yet
+  queueMicrotask(updateProgress);
+  return entry.promise as Promise<BufferResult<J>>;
+};
+
+/**
+ * Forgets failed jobs, so the next request for them goes to the worker again
+ */
+export const retryFailedBuffers = () => {
+  for (const [key, entry] of cache) {
+    if (entry.failed) cache.delete(key);
+  }
+};
+
+/**
+ * Already generated buffers for a job, without waiting
+ */
+export const peekBuffers = <J extends BufferJob>(job: J): BufferResult<J> | undefined =>
+  cache.get(jobKey(job))?.result as BufferResult<J> | undefined;
+
+export const subscribeBufferProgress = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getBufferProgress = () => progress;
@@ -0,0 +1,72 @@
+// Output widths offered for stills; the height follows the window's aspect ratio
+export const PNG_WIDTHS = [1920, 2560, 3840];
+export const VIDEO_WIDTHS = [1280, 1920];
+export const VIDEO_DURATIONS = [5, 10, 15];
+export const VIDEO_FPS = [30, 60];
+
+// Elements marked with this attribute (e.g. the capture panel itself) are left out of captures
+export const CAPTURE_EXCLUDE_ATTRIBUTE = 'data-capture-exclude';
+
+/**
+ * Same-origin stylesheet text, so rasterized DOM keeps its Tailwind styling.
+ * Cross-origin sheets (web fonts) cannot be read and fall back to system fonts.
+ */
+export const collectStyles = () => {
+  const rules: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      for (const rule of Array.from(sheet.cssRules)) rules.push(rule.cssText);
+    } catch {
+      // Cross-origin sheet
+    }
+  }
+  return rules.join('\n');
+};
+
+/**
+ * Renders a DOM subtree to an image through an SVG foreignObject, scaled to `width` x `height` pixels.
+ * Canvases and excluded elements are dropped; the WebGL canvas is composited separately.
+ */
+export const rasterizeElement = async (element: HTMLElement, width: number, height: number, styles: string) => {
+  const clone = element.cloneNode(true) as HTMLElement;
+  clone.querySelectorAll(`canvas, [${CAPTURE_EXCLUDE_ATTRIBUTE}]`).forEach((node) => node.remove());
+
+  const cssWidth = element.offsetWidth;
+  const cssHeight = element.offsetHeight;
+  const html = new XMLSerializer().serializeToString(clone);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${cssWidth} ${cssHeight}">`
+    + `<foreignObject width="${cssWidth}" height="${cssHeight}">`
+    + `<div xmlns="http://www.w3.org/1999/xhtml" style="position:relative;width:${cssWidth}px;height:${cssHeight}px">`
+    + `<style>${styles}</style>${html}</div></foreignObject></svg>`;
+
+  const image = new Image(width, height);
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  await image.decode();
+  return image;
+};
+
+/**
+ * Draws a DOM layer over a capture, at the element's on-screen rectangle scaled by `scale`
+ */
+export const drawElementLayer = async (
+  context: CanvasRenderingContext2D,
+  element: HTMLElement,
+  scale: number,
+  styles: string
+) => {
+  const rect = element.getBoundingClientRect();
+  const width = Math.round(rect.width * scale);
+  const height = Math.round(rect.height * scale);
+  if (width === 0 || height === 0) return;
+  const image = await rasterizeElement(element, width, height, styles);
+  context.drawImage(image, rect.left * scale, rect.top * scale, width, height);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,48 @@
+import { PostEffect, PostEffectToggles, QualitySettings } from '../types';
+
+export const POST_EFFECTS: PostEffect[] = ['bloom', 'vignette', 'grain', 'chromaticAberration', 'depthOfField'];
+
+// Chromatic aberration is a stylistic choice, so it starts off
+export const DEFAULT_EFFECTS: PostEffectToggles = {
+  bloom: true,
+  vignette: true,
+  grain: true,
+  chromaticAberration: false,
+  depthOfField: true,
+};
+
+// Star cores and rings are drawn this many times brighter than their palette color when bloom is on,
+// which lifts them past the bloom threshold while the galaxy's particles stay below it
+export const BLOOM_BOOST = 4;
+
+/**
+ * Effects that are both switched on and affordable at the current quality tier
+ */
+export const activeEffects = (toggles: PostEffectToggles, settings: QualitySettings): PostEffectToggles => {
+  const active = { ...toggles };
+  for (const id of POST_EFFECTS) active[id] = toggles[id] && settings.postEffects.includes(id);
+  return active;
+};
+
+const STORAGE_KEY = 'cosmos.effects';
+
+export const loadEffectToggles = (): PostEffectToggles => {
+  const toggles = { ...DEFAULT_EFFECTS };
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    for (const id of POST_EFFECTS) {
+      if (typeof stored?.[id] === 'boolean') toggles[id] = stored[id];
+    }
+  } catch {
+    // Storage unavailable or corrupt
+  }
+  return toggles;
+};
+
+export const saveEffectToggles = (toggles: PostEffectToggles) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(toggles));
+  } catch {
+    // Storage unavailable
+  }
+};
@@ -0,0 +1,27 @@
+import type { MessageKey } from '../i18n/en';
+
+/**
+ * A message to show in the current language. Params can be messages themselves, e.g. "the end of the
+ * query" inside "Expected {expected} but found {found}".
+ */
+export interface LocalizedText {
+  key: MessageKey;
+  params?: LocalizedParams;
+}
+
+export type LocalizedParams = Record<string, string | number | LocalizedText>;
+
+/**
+ * An error meant for the user, thrown where no language is at hand (e.g. code shared with the worker).
+ * It carries a message key instead of text; interfaces show it in the current language through errorMessage.
+ */
+export class LocalizedError extends Error implements LocalizedText {
+  readonly key: MessageKey;
+  readonly params?: LocalizedParams;
+
+  constructor(key: MessageKey, params?: LocalizedParams) {
+    super(key);
+    this.key = key;
+    this.params = params;
+  }
+}
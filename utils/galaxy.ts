@@ -0,0 +1,278 @@
+import * as THREE from 'three';
+import { RandomFn, createRandom } from './random';
+import { MORPHOLOGY_ORDER, getMorphology, morphologyValues } from './morphologies';
+import { LocalizedError } from './errors';
+import { CloudBuffers, GalaxyBuffers, GalaxyNumericKey, GalaxyParams, MorphologyId, NebulaBuffers, ParticleCloudSpec } from '../types';
+
+// Galaxy Generation Parameters
+export const GALAXY_PARAMS: GalaxyParams = {
+  morphology: 'spiral',
+  morphologyParams: {},
+  radius: 5,
+  branches: 3,
+  spin: 1,
+  randomness: 0.2,
+  randomnessPower: 3,
+  insideColor: '#ff6030',
+  outsideColor: '#1b3984',
+  starCount: 20000,
+  dustCount: 5000,
+  dustRadius: 8,
+  dustRandomness: 0.8,
+};
+
+/**
+ * Allowed range of every numeric parameter. The editor's controls offer exactly these, and imported or
+ * stored parameters are clamped to them, so a hand-edited file cannot ask for a billion stars.
+ */
+export const PARAM_RANGES: Record<GalaxyNumericKey, { min: number; max: number; step: number }> = {
+  radius: { min: 1, max: 10, step: 0.1 },
+  branches: { min: 1, max: 8, step: 1 },
+  spin: { min: -3, max: 3, step: 0.05 },
+  randomness: { min: 0, max: 2, step: 0.01 },
+  randomnessPower: { min: 1, max: 10, step: 0.1 },
+  dustRadius: { min: 1, max: 15, step: 0.1 },
+  dustRandomness: { min: 0, max: 2, step: 0.01 },
+  starCount: { min: 0, max: 500000, step: 1000 },
+  dustCount: { min: 0, max: 100000, step: 1000 },
+};
+
+// Parameters that count something, so only whole numbers make sense
+const INTEGER_PARAMS: GalaxyNumericKey[] = ['branches', 'starCount', 'dustCount'];
+
+// The galaxy plane is tilted towards the viewer
+export const GALAXY_TILT = 0.2;
+
+// Orbital time units per second of simulation time
+export const ORBIT_RATE = 0.1;
+
+// Seconds for stars and systems to travel to a new morphology's layout
+export const MORPH_DURATION = 1.5;
+
+// How much faster the core turns than the reference radius
+export const DIFFERENTIAL_ROTATION = 0.3;
+export const REFERENCE_RADIUS = 2.5;
+
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+
+// Generators report progress every this many particles
+const PROGRESS_INTERVAL = 10000;
+
+/**
+ * Orbital angle (radians around +Y) reached after `time` by anything at `radius`.
+ * Inner orbits turn faster than outer ones; the galaxy vertex shader mirrors this formula,
+ * so stars and embedded systems at the same radius stay together.
+ */
+export const orbitalAngle = (radius: number, time: number) =>
+    time * (1 + DIFFERENTIAL_ROTATION) / (1 + DIFFERENTIAL_ROTATION * radius / REFERENCE_RADIUS);
+
+/**
+ * Where a star system on `branchIndex` at `radius` sits at time zero, e.g. on a spiral arm.
+ * Radius zero is the galactic center in every morphology, even those whose arms start further out.
+ */
+export const getAnchorPosition = (radius: number, branchIndex: number, params: GalaxyParams = GALAXY_PARAMS, target = new THREE.Vector3()) =>
+    radius === 0
+        ? target.set(0, 0, 0)
+        : getMorphology(params.morphology).anchor(radius, branchIndex, params, morphologyValues(params), target);
+
+/**
+ * Anchor position after the galaxy has rotated for `time`, at the rate of the stars around it
+ */
+export const getOrbitalPosition = (
+    radius: number,
+    branchIndex: number,
+    params: GalaxyParams,
+    time: number,
+    target = new THREE.Vector3()
+) => {
+    getAnchorPosition(radius, branchIndex, params, target);
+    return target.applyAxisAngle(Y_AXIS, orbitalAngle(Math.hypot(target.x, target.z), time));
+};
+
+/**
+ * Generates geometry data for a galaxy of the chosen morphology.
+ * Positions are at time zero; `radii` holds each star's orbital radius for the shader.
+ */
+export const generateGalaxyData = (
+  count: number,
+  options: GalaxyParams,
+  random: RandomFn,
+  onProgress?: (generated: number) => void
+): GalaxyBuffers => {
+  const { radius, insideColor, outsideColor } = options;
+  const place = getMorphology(options.morphology).createPlacer(options, morphologyValues(options), random);
+
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const radii = new Float32Array(count);
+  
+  const colorInside = new THREE.Color(insideColor);
+  const colorOutside = new THREE.Color(outsideColor);
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    const r = place(i, positions, i3);
+    radii[i] = r;
+
+    const mixedColor = colorInside.clone();
+    mixedColor.lerp(colorOutside, Math.min(r / radius, 1));
+
+    mixedColor.r += (random() - 0.5) * 0.05;
+    mixedColor.g += (random() - 0.5) * 0.05;
+    mixedColor.b += (random() - 0.5) * 0.05;
+
+    colors[i3] = mixedColor.r;
+    colors[i3 + 1] = mixedColor.g;
+    colors[i3 + 2] = mixedColor.b;
+
+    if (onProgress && (i + 1) % PROGRESS_INTERVAL === 0) onProgress(i + 1);
+  }
+
+  return { positions, colors, radii };
+};
+
+/**
+ * Points in a sphere volume with density falling off from center
+ */
+export const generateCloudData = (
+  { radius, falloff }: ParticleCloudSpec,
+  count: number,
+  random: RandomFn,
+  onProgress?: (generated: number) => void
+): CloudBuffers => {
+  const positions = new Float32Array(count * 3);
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    const r = Math.pow(random(), falloff) * radius;
+    const theta = random() * 2 * Math.PI;
+    const phi = Math.acos(2 * random() - 1);
+
+    positions[i3] = r * Math.sin(phi) * Math.cos(theta);
+    positions[i3 + 1] = r * Math.sin(phi) * Math.sin(theta);
+    positions[i3 + 2] = r * Math.cos(phi);
+
+    if (onProgress && (i + 1) % PROGRESS_INTERVAL === 0) onProgress(i + 1);
+  }
+
+  return { positions };
+};
+
+// Nebula clouds per arm, spread between these fractions of the galaxy radius
+export const NEBULAE_PER_ARM = 3;
+const NEBULA_RANGE = [0.25, 0.85] as const;
+
+/**
+ * Nebula clouds strung along the arms, each a stack of `layers` soft sprites, tinted from inside to
+ * outside color by radius like the stars around them. Cloud placement comes from its own random stream,
+ * so changing the layer count (e.g. with the quality tier) keeps the clouds where they were.
+ */
+export const generateNebulaData = (
+  params: GalaxyParams,
+  layers: number,
+  seed: number,
+  stream: string,
+  onProgress?: (generated: number) => void
+): NebulaBuffers => {
+  const clouds = params.branches * NEBULAE_PER_ARM;
+  const count = clouds * layers;
+  const centers = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const sizes = new Float32Array(count);
+  const rotations = new Float32Array(count);
+  const seeds = new Float32Array(count);
+
+  const placement = createRandom(seed, stream);
+  const colorInside = new THREE.Color(params.insideColor);
+  const colorOutside = new THREE.Color(params.outsideColor);
+  const center = new THREE.Vector3();
+  const color = new THREE.Color();
+  const [near, far] = NEBULA_RANGE;
+
+  for (let cloud = 0; cloud < clouds; cloud++) {
+    const branch = cloud % params.branches;
+    const fraction = near + ((Math.floor(cloud / params.branches) + placement()) / NEBULAE_PER_ARM) * (far - near);
+    const radius = fraction * params.radius;
+    getAnchorPosition(radius, branch, params, center);
+    const size = (0.15 + placement() * 0.1) * params.radius;
+    color.copy(colorInside).lerp(colorOutside, fraction);
+
+    const random = createRandom(seed, `${stream}:${cloud}`);
+    for (let layer = 0; layer < layers; layer++) {
+      const i = cloud * layers + layer;
+      // Layers scatter around the cloud's center, flattened towards the galaxy plane
+      centers[i * 3] = center.x + (random() - 0.5) * size * 0.6;
+      centers[i * 3 + 1] = center.y + (random() - 0.5) * size * 0.15;
+      centers[i * 3 + 2] = center.z + (random() - 0.5) * size * 0.6;
+      colors[i * 3] = color.r * (0.9 + random() * 0.2);
+      colors[i * 3 + 1] = color.g * (0.9 + random() * 0.2);
+      colors[i * 3 + 2] = color.b * (0.9 + random() * 0.2);
+      sizes[i] = size * (0.6 + random() * 0.6);
+      rotations[i] = random() * Math.PI * 2;
+      seeds[i] = random();
+    }
+    onProgress?.((cloud + 1) * layers);
+  }
+
+  return { centers, colors, sizes, rotations, seeds };
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Validates an untrusted parameter set (e.g. imported JSON), filling gaps from the defaults and clamping
+ * numbers to PARAM_RANGES
+ */
+export const parseGalaxyParams = (input: unknown): GalaxyParams => {
+  if (!input || typeof input !== 'object') {
+    throw new LocalizedError('editor.notObject');
+  }
+
+  const source = input as Record<string, unknown>;
+  const params = { ...GALAXY_PARAMS };
+
+  for (const key of Object.keys(GALAXY_PARAMS) as (keyof GalaxyParams)[]) {
+    const value = source[key];
+    if (value === undefined || key === 'morphology' || key === 'morphologyParams') continue;
+
+    if (typeof GALAXY_PARAMS[key] === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new LocalizedError('editor.notNumber', { key });
+      }
+      const { min, max } = PARAM_RANGES[key as GalaxyNumericKey];
+      const clamped = Math.min(max, Math.max(min, value));
+      (params[key] as number) = INTEGER_PARAMS.includes(key as GalaxyNumericKey) ? Math.round(clamped) : clamped;
+    } else {
+      if (typeof value !== 'string' || !HEX_COLOR.test(value)) {
+        throw new LocalizedError('editor.notColor', { key });
+      }
+      (params[key] as string) = value;
+    }
+  }
+
+  if (source.morphology !== undefined) {
+    if (typeof source.morphology !== 'string' || !MORPHOLOGY_ORDER.includes(source.morphology as MorphologyId)) {
+      throw new LocalizedError('editor.unknownMorphology', { options: MORPHOLOGY_ORDER.join(', ') });
+    }
+    params.morphology = source.morphology as MorphologyId;
+  }
+
+  // Only the chosen morphology's own parameters are kept, clamped to their ranges
+  params.morphologyParams = {};
+  const shape = source.morphologyParams;
+  if (shape !== undefined) {
+    if (!shape || typeof shape !== 'object') {
+      throw new LocalizedError('editor.shapeNotObject');
+    }
+    for (const spec of getMorphology(params.morphology).params) {
+      const value = (shape as Record<string, unknown>)[spec.key];
+      if (value === undefined) continue;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new LocalizedError('editor.notNumber', { key: `morphologyParams.${spec.key}` });
+      }
+      params.morphologyParams[spec.key] = Math.min(spec.max, Math.max(spec.min, value));
+    }
+  }
+
+  return params;
+};
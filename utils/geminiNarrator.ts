@@ -0,0 +1,108 @@
+import { NarratorProvider, NarratorRequest, NarratorTurn } from '../types';
+
+const MODEL = 'gemini-2.5-flash';
+const ENDPOINT = `https://generativelanguage.googleapis.com/v1beta/models/${MODEL}:streamGenerateContent?alt=sse`;
+
+const LANGUAGES = { 'zh-CN': 'Simplified Chinese', en: 'English' } as const;
+
+// Stands in for the user's first turn, which the API requires before any model turn
+const OPENING_PROMPT = 'Introduce this star system to a visitor who has just flown to it.';
+
+/**
+ * Persona and ground truth for the conversation: everything the panel shows about the system
+ */
+const instructions = ({ system, locale }: NarratorRequest) => [
+  'You are the narrator of an interactive 3D galaxy map, speaking as a calm, curious planetarium guide.',
+  `Answer in ${LANGUAGES[locale]}, in at most three short paragraphs of plain text without markdown.`,
+  'Stay grounded in the facts below. If asked something they do not cover, say so briefly and offer what you do know.',
+  '',
+  `Name: ${system.label.title}${system.label.highlight}`,
+  `Kind: ${system.details.subtitle}`,
+  system.radius === 0
+    ? 'Placement: the galactic core itself, which every arm winds around'
+    : `Placement: spiral arm ${system.arm + 1}, ${system.radius} units from the galactic core`,
+  `Planets: ${system.planets?.count ?? 0}; orbital rings: ${system.rings.length}; orbiting particles: ${system.cloud?.count ?? 0}`,
+  ...system.details.stats.map(({ label, value }) => `${label}: ${value}`),
+  ...system.description,
+  ...system.details.body,
+].join('\n');
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: { text: string }[];
+}
+
+/**
+ * The conversation in Gemini's shape, opening prompt first. Roles must alternate, so a question whose
+ * reply failed or was stopped is merged into the next one, as the opening prompt is when the opening
+ * narration never arrived.
+ */
+const contents = (turns: NarratorTurn[]) => {
+  const messages: GeminiContent[] = [];
+  for (const { role, text } of [{ role: 'user', text: OPENING_PROMPT }, ...turns]) {
+    const author = role === 'narrator' ? 'model' : 'user';
+    const last = messages[messages.length - 1];
+    if (last?.role === author) {
+      last.parts.push({ text });
+    } else {
+      messages.push({ role: author, parts: [{ text }] });
+    }
+  }
+  return messages;
+};
+
+interface GeminiChunk {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+/**
+ * Reads the `data:` payloads of a server-sent event stream
+ */
+async function* readEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield line.slice(5).trim();
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Narrator backed by the Gemini API's streaming endpoint, called directly from the browser with `apiKey`
+ */
+export const createGeminiNarrator = (apiKey: string): NarratorProvider => ({
+  id: 'gemini',
+  async *stream(request, signal) {
+    const response = await fetch(ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+      body: JSON.stringify({
+        systemInstruction: { parts: [{ text: instructions(request) }] },
+        contents: contents(request.turns),
+      }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      // Error bodies look like { error: { message } }; fall back to the status line
+      const error = await response.json().catch(() => null);
+      throw new Error(error?.error?.message ?? `${response.status} ${response.statusText}`);
+    }
+
+    for await (const data of readEvents(response.body)) {
+      const chunk: GeminiChunk = JSON.parse(data);
+      const text = chunk.candidates?.[0]?.content?.parts?.map((part) => part.text ?? '').join('');
+      if (text) yield text;
+    }
+  },
+});
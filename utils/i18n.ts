@@ -0,0 +1,155 @@
+import { en, MessageKey } from '../i18n/en';
+import { zhCN, zhCNContent } from '../i18n/zh-CN';
+import { MorphologyDefinition } from './morphologies';
+import { LocalizedError, LocalizedText } from './errors';
+import { Locale, LocaleContent, StarSystemDefinition, TourDefinition } from '../types';
+
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+interface Catalog {
+  messages: Record<MessageKey, string>;
+  // Data content is authored in English, so English needs no translations
+  content?: LocaleContent;
+}
+
+const CATALOGS: Record<Locale, Catalog> = {
+  'zh-CN': { messages: zhCN, content: zhCNContent },
+  en: { messages: en },
+};
+
+// Each language is named in itself, so it can be found without reading the current one
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'zh-CN', label: '中文' },
+  { id: 'en', label: 'English' },
+];
+
+// For browsers that prefer neither language
+const FALLBACK_LOCALE: Locale = 'en';
+
+const STORAGE_KEY = 'cosmos.locale';
+
+const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in CATALOGS;
+
+/**
+ * The first of the browser's preferred languages that has a catalog; any Chinese variant maps to zh-CN
+ */
+export const detectLocale = (): Locale => {
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const language of languages) {
+    const tag = language?.toLowerCase() ?? '';
+    if (tag.startsWith('zh')) return 'zh-CN';
+    if (tag.startsWith('en')) return 'en';
+  }
+  return FALLBACK_LOCALE;
+};
+
+const loadLocale = (): Locale | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage unavailable
+  }
+  return null;
+};
+
+const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Storage unavailable
+  }
+};
+
+// Module-level so the overlay and the labels inside the Canvas (a separate React root) share one language
+let current: Locale = loadLocale() ?? detectLocale();
+const listeners = new Set<() => void>();
+
+export const getLocale = () => current;
+
+/**
+ * Switches the language everywhere and remembers the choice
+ */
+export const setLocale = (locale: Locale) => {
+  if (locale === current) return;
+  current = locale;
+  saveLocale(locale);
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeLocale = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * The message for `key` in `locale`, with `{name}` placeholders filled from `params`
+ */
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams) => {
+  const message = CATALOGS[locale].messages[key] ?? en[key];
+  return params ? message.replace(/\{(\w+)\}/g, (match, name: string) => String(params[name] ?? match)) : message;
+};
+
+/**
+ * A LocalizedText in the language of `t`, nested messages included
+ */
+export const localizeText = ({ key, params }: LocalizedText, t: Translate): string => {
+  if (!params) return t(key);
+  const values: MessageParams = {};
+  for (const [name, value] of Object.entries(params)) {
+    values[name] = typeof value === 'object' ? localizeText(value, t) : value;
+  }
+  return t(key, values);
+};
+
+/**
+ * What to show for a caught error: localized when it can be, else its message, else `fallback`
+ */
+export const errorMessage = (error: unknown, t: Translate, fallback: MessageKey) =>
+  error instanceof LocalizedError ? localizeText(error, t)
+    : error instanceof Error ? error.message
+    : t(fallback);
+
+/**
+ * The system with its description and details in `locale`. Names stay as they are: they are product names.
+ */
+export const localizeSystem = (system: StarSystemDefinition, locale: Locale): StarSystemDefinition => {
+  const content = CATALOGS[locale].content?.systems[system.id];
+  if (!content) return system;
+  const { details } = system;
+  return {
+    ...system,
+    description: content.description,
+    details: {
+      ...details,
+      subtitle: content.subtitle,
+      body: content.body,
+      stats: details.stats.map((stat, i) => ({ ...stat, label: content.stats[i] ?? stat.label })),
+      links: details.links.map((link, i) => ({ ...link, label: content.links[i] ?? link.label })),
+      actions: details.actions.map((action, i) => ({ ...action, label: content.actions[i] ?? action.label })),
+    },
+  };
+};
+
+export const localizeTour = (tour: TourDefinition, locale: Locale): TourDefinition => {
+  const content = CATALOGS[locale].content?.tours[tour.id];
+  if (!content) return tour;
+  return {
+    ...tour,
+    title: content.title,
+    waypoints: tour.waypoints.map((waypoint, i) => ({ ...waypoint, caption: content.captions[i] ?? waypoint.caption })),
+  };
+};
+
+export const localizeMorphology = (morphology: MorphologyDefinition, locale: Locale): MorphologyDefinition => {
+  const content = CATALOGS[locale].content?.morphologies[morphology.id];
+  if (!content) return morphology;
+  return {
+    ...morphology,
+    label: content.label,
+    params: morphology.params.map((spec) => ({ ...spec, label: content.params[spec.key] ?? spec.label })),
+  };
+};
@@ -0,0 +1,95 @@
+import * as THREE from 'three';
+import { RandomFn, createRandom } from './random';
+import { Planet, PlanetOrbit, PlanetSpec, StarSystemDefinition } from '../types';
+
+const TAU = Math.PI * 2;
+
+// Newton steps for Kepler's equation; plenty for the eccentricities a planet spec allows
+const KEPLER_ITERATIONS = 6;
+
+/**
+ * Seeded orbital elements for a spec's planets, innermost first.
+ * Semi-major axes are spread evenly across the range with some jitter, so orbits rarely cross.
+ */
+export const generateOrbits = (spec: PlanetSpec, random: RandomFn): PlanetOrbit[] => {
+  const [minAxis, maxAxis] = spec.semiMajorAxis;
+  const [minEccentricity, maxEccentricity] = spec.eccentricity;
+  const spacing = spec.count > 1 ? (maxAxis - minAxis) / (spec.count - 1) : 0;
+  const orbits: PlanetOrbit[] = [];
+
+  for (let i = 0; i < spec.count; i++) {
+    const semiMajorAxis = minAxis + spacing * (i + (random() - 0.5) * 0.5);
+    orbits.push({
+      semiMajorAxis,
+      eccentricity: minEccentricity + random() * (maxEccentricity - minEccentricity),
+      inclination: random() * spec.inclination,
+      ascendingNode: random() * TAU,
+      periapsis: random() * TAU,
+      phase: random(),
+      // Kepler's third law: T² ∝ a³
+      period: spec.period * Math.pow(semiMajorAxis, 1.5),
+    });
+  }
+  return orbits;
+};
+
+/**
+ * Eccentric anomaly E for mean anomaly M, solving M = E - e sin E
+ */
+const eccentricAnomaly = (meanAnomaly: number, eccentricity: number) => {
+  let anomaly = eccentricity < 0.8 ? meanAnomaly : Math.PI;
+  for (let i = 0; i < KEPLER_ITERATIONS; i++) {
+    anomaly -= (anomaly - eccentricity * Math.sin(anomaly) - meanAnomaly) / (1 - eccentricity * Math.cos(anomaly));
+  }
+  return anomaly;
+};
+
+/**
+ * Fraction of orbits completed at `time`, counted from periapsis; not wrapped
+ */
+export const orbitPhase = (orbit: PlanetOrbit, time: number) => orbit.phase + time / orbit.period;
+
+/**
+ * Position around the star at `phase` (see orbitPhase), in the system's frame with +Y as the orbital pole.
+ * Planets sweep faster near periapsis, as Kepler's second law requires.
+ */
+export const orbitPosition = (orbit: PlanetOrbit, phase: number, target: THREE.Vector3) => {
+  const { semiMajorAxis: a, eccentricity: e, inclination, ascendingNode, periapsis } = orbit;
+  const meanAnomaly = (phase - Math.floor(phase)) * TAU;
+  const E = eccentricAnomaly(meanAnomaly, e);
+
+  const radius = a * (1 - e * Math.cos(E));
+  const trueAnomaly = 2 * Math.atan2(Math.sqrt(1 + e) * Math.sin(E / 2), Math.sqrt(1 - e) * Math.cos(E / 2));
+
+  // Rotate from the orbital plane by periapsis, inclination and ascending node
+  const u = periapsis + trueAnomaly;
+  const cosNode = Math.cos(ascendingNode);
+  const sinNode = Math.sin(ascendingNode);
+  const cosI = Math.cos(inclination);
+  return target.set(
+    radius * (cosNode * Math.cos(u) - sinNode * Math.sin(u) * cosI),
+    radius * Math.sin(u) * Math.sin(inclination),
+    radius * (sinNode * Math.cos(u) + cosNode * Math.sin(u) * cosI)
+  );
+};
+
+// Exoplanet-style designations: b, c, d... from the innermost planet out
+const planetLetter = (index: number) => String.fromCharCode(98 + index);
+
+/**
+ * The system's planets for `seed`, innermost first; the scene and the WisdomSQL sample database share them
+ */
+export const generatePlanets = (system: StarSystemDefinition, seed: number): Planet[] => {
+  const spec = system.planets;
+  if (!spec) return [];
+  const random = createRandom(seed, `${system.id}:planets`);
+  const systemName = `${system.label.title}${system.label.highlight}`;
+
+  return generateOrbits(spec, random).map((orbit, i) => ({
+    id: `${system.id}-${planetLetter(i)}`,
+    name: `${systemName} ${planetLetter(i)}`,
+    orbit,
+    size: spec.size[0] + random() * (spec.size[1] - spec.size[0]),
+    color: spec.colors[i % spec.colors.length],
+  }));
+};
@@ -0,0 +1,62 @@
+import { translate } from './i18n';
+import { hashString } from './random';
+import { NarratorProvider, NarratorRequest } from '../types';
+
+// Streaming pace: a few characters every tick reads like a model typing
+const CHUNK_LENGTH = 3;
+const CHUNK_DELAY = 18;
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal.throwIfAborted();
+    const abort = () => {
+      clearTimeout(id);
+      reject(signal.reason);
+    };
+    const id = setTimeout(() => {
+      signal.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', abort, { once: true });
+  });
+
+/**
+ * The reply, built only from the system's own copy. Questions are routed by keyword, in either language.
+ */
+const compose = ({ system, locale, turns }: NarratorRequest) => {
+  const name = `${system.label.title}${system.label.highlight}`;
+  const stats = system.details.stats.map(({ label, value }) => `${label} ${value}`).join(', ');
+  const question = turns[turns.length - 1]?.text.toLowerCase();
+
+  if (!question) {
+    return translate(locale, 'narrator.mock.opening', { name, subtitle: system.details.subtitle, body: system.details.body.join(' '), stats });
+  }
+  if (/planet|orbit|moon|行星|轨道|卫星/.test(question)) {
+    return system.planets
+      ? translate(locale, 'narrator.mock.planets', { name, count: system.planets.count, rings: system.rings.length })
+      : translate(locale, 'narrator.mock.noPlanets', { name, particles: system.cloud?.count ?? 0, rings: system.rings.length });
+  }
+  if (/where|arm|galaxy|location|哪|位置|旋臂/.test(question)) {
+    return system.radius === 0
+      ? translate(locale, 'narrator.mock.center', { name })
+      : translate(locale, 'narrator.mock.location', { name, arm: system.arm + 1, radius: system.radius });
+  }
+  // Anything else gets one of the system's facts, the same one for the same question
+  const facts = [...system.description, ...system.details.body];
+  return translate(locale, 'narrator.mock.fallback', { name, fact: facts[hashString(question) % facts.length] });
+};
+
+/**
+ * Offline narrator with canned, deterministic replies. Used when no Gemini key is configured.
+ */
+export const mockNarrator: NarratorProvider = {
+  id: 'mock',
+  async *stream(request, signal) {
+    // Code points, so a chunk never splits a surrogate pair
+    const characters = Array.from(compose(request));
+    for (let i = 0; i < characters.length; i += CHUNK_LENGTH) {
+      await wait(CHUNK_DELAY, signal);
+      yield characters.slice(i, i + CHUNK_LENGTH).join('');
+    }
+  },
+};
@@ -0,0 +1,209 @@
+import * as THREE from 'three';
+import { RandomFn } from './random';
+import { GalaxyParams, MorphologyId, MorphologyParamSpec } from '../types';
+
+/**
+ * Writes star `index` at time zero into `positions` at `offset` and returns its orbital radius
+ */
+export type StarPlacer = (index: number, positions: Float32Array, offset: number) => number;
+
+export interface MorphologyDefinition {
+  id: MorphologyId;
+  label: string;
+  params: MorphologyParamSpec[];
+  // Sets up one generation run; may draw from `random` first, e.g. for clump centers
+  createPlacer: (params: GalaxyParams, shape: Record<string, number>, random: RandomFn) => StarPlacer;
+  // Where an embedded star system on `branch` at `radius` sits at time zero
+  anchor: (radius: number, branch: number, params: GalaxyParams, shape: Record<string, number>, target: THREE.Vector3) => THREE.Vector3;
+}
+
+// Offset that clusters near zero: the higher the power, the tighter stars hug their arm
+const scatter = (random: RandomFn, power: number, amount: number) =>
+  Math.pow(random(), power) * (random() < 0.5 ? 1 : -1) * amount;
+
+const branchAngle = (branch: number, branches: number) => ((branch % branches) / branches) * Math.PI * 2;
+
+const spiral: MorphologyDefinition = {
+  id: 'spiral',
+  label: 'Spiral',
+  params: [],
+  createPlacer: ({ radius, branches, spin, randomness, randomnessPower }, _shape, random) => (index, positions, offset) => {
+    const r = random() * radius;
+    const angle = branchAngle(index, branches) + r * spin;
+
+    positions[offset] = Math.cos(angle) * r + scatter(random, randomnessPower, randomness * r);
+    positions[offset + 1] = scatter(random, randomnessPower, randomness * r);
+    positions[offset + 2] = Math.sin(angle) * r + scatter(random, randomnessPower, randomness * r);
+    return r;
+  },
+  anchor: (radius, branch, { branches, spin }, _shape, target) => {
+    const angle = branchAngle(branch, branches) + radius * spin;
+    return target.set(Math.cos(angle) * radius, 0, Math.sin(angle) * radius);
+  },
+};
+
+const barred: MorphologyDefinition = {
+  id: 'barred',
+  label: 'Barred Spiral',
+  params: [
+    { key: 'barLength', label: 'Bar Length', min: 0.1, max: 0.6, step: 0.01, default: 0.35 },
+    { key: 'barWidth', label: 'Bar Width', min: 0.02, max: 0.3, step: 0.01, default: 0.08 },
+    { key: 'barFraction', label: 'Stars in Bar', min: 0, max: 0.6, step: 0.01, default: 0.3 },
+  ],
+  createPlacer: ({ radius, branches, spin, randomness, randomnessPower }, shape, random) => {
+    const barEnd = shape.barLength * radius;
+
+    return (index, positions, offset) => {
+      if (random() < shape.barFraction) {
+        // Along the bar, thickest in the middle
+        const along = (random() * 2 - 1) * barEnd;
+        const thickness = shape.barWidth * radius * (1 - (0.5 * Math.abs(along)) / barEnd);
+        positions[offset] = along;
+        positions[offset + 1] = scatter(random, 2, thickness * 0.5);
+        positions[offset + 2] = scatter(random, 2, thickness);
+        return Math.abs(along);
+      }
+
+      // Arms trail from the ends of the bar
+      const r = barEnd + random() * (radius - barEnd);
+      const angle = branchAngle(index, branches) + (r - barEnd) * spin;
+      positions[offset] = Math.cos(angle) * r + scatter(random, randomnessPower, randomness * r);
+      positions[offset + 1] = scatter(random, randomnessPower, randomness * r);
+      positions[offset + 2] = Math.sin(angle) * r + scatter(random, randomnessPower, randomness * r);
+      return r;
+    };
+  },
+  anchor: (radius, branch, params, shape, target) => {
+    const barEnd = shape.barLength * params.radius;
+    const r = Math.max(radius, barEnd);
+    const angle = branchAngle(branch, params.branches) + (r - barEnd) * params.spin;
+    return target.set(Math.cos(angle) * r, 0, Math.sin(angle) * r);
+  },
+};
+
+const elliptical: MorphologyDefinition = {
+  id: 'elliptical',
+  label: 'Elliptical',
+  params: [
+    { key: 'flattening', label: 'Flattening', min: 0, max: 0.8, step: 0.01, default: 0.4 },
+    { key: 'elongation', label: 'Elongation', min: 0, max: 0.6, step: 0.01, default: 0.2 },
+    { key: 'concentration', label: 'Concentration', min: 1, max: 4, step: 0.1, default: 2.5 },
+  ],
+  createPlacer: ({ radius }, shape, random) => (_index, positions, offset) => {
+    // Ellipsoid, densest at the center
+    const r = Math.pow(random(), shape.concentration) * radius;
+    const theta = random() * 2 * Math.PI;
+    const phi = Math.acos(2 * random() - 1);
+
+    positions[offset] = r * Math.sin(phi) * Math.cos(theta);
+    positions[offset + 1] = r * Math.cos(phi) * (1 - shape.flattening);
+    positions[offset + 2] = r * Math.sin(phi) * Math.sin(theta) * (1 - shape.elongation);
+    return Math.hypot(positions[offset], positions[offset + 2]);
+  },
+  anchor: (radius, branch, { branches }, shape, target) => {
+    const angle = branchAngle(branch, branches);
+    return target.set(Math.cos(angle) * radius, 0, Math.sin(angle) * radius * (1 - shape.elongation));
+  },
+};
+
+const irregular: MorphologyDefinition = {
+  id: 'irregular',
+  label: 'Irregular',
+  params: [
+    { key: 'clumps', label: 'Clumps', min: 1, max: 8, step: 1, default: 4 },
+    { key: 'clumpSize', label: 'Clump Size', min: 0.05, max: 0.5, step: 0.01, default: 0.2 },
+    { key: 'diffuse', label: 'Diffuse Stars', min: 0, max: 1, step: 0.01, default: 0.3 },
+  ],
+  createPlacer: ({ radius, randomness, randomnessPower }, shape, random) => {
+    // Star-forming clumps scattered over the disc, fixed for this run
+    const centers = Array.from({ length: Math.max(1, Math.round(shape.clumps)) }, () => {
+      const angle = random() * 2 * Math.PI;
+      const distance = Math.sqrt(random()) * radius * 0.7;
+      return [Math.cos(angle) * distance, (random() - 0.5) * radius * 0.1, Math.sin(angle) * distance];
+    });
+    const spread = shape.clumpSize * radius;
+
+    return (_index, positions, offset) => {
+      if (random() < shape.diffuse) {
+        const r = Math.sqrt(random()) * radius;
+        const angle = random() * 2 * Math.PI;
+        positions[offset] = Math.cos(angle) * r;
+        positions[offset + 1] = scatter(random, randomnessPower, randomness * r);
+        positions[offset + 2] = Math.sin(angle) * r;
+      } else {
+        const [x, y, z] = centers[Math.floor(random() * centers.length)];
+        positions[offset] = x + scatter(random, 2, spread);
+        positions[offset + 1] = y + scatter(random, 2, spread * 0.5);
+        positions[offset + 2] = z + scatter(random, 2, spread);
+      }
+      return Math.hypot(positions[offset], positions[offset + 2]);
+    };
+  },
+  anchor: (radius, branch, { branches }, _shape, target) => {
+    const angle = branchAngle(branch, branches);
+    return target.set(Math.cos(angle) * radius, 0, Math.sin(angle) * radius);
+  },
+};
+
+const ring: MorphologyDefinition = {
+  id: 'ring',
+  label: 'Ring',
+  params: [
+    { key: 'ringRadius', label: 'Ring Radius', min: 0.3, max: 0.95, step: 0.01, default: 0.65 },
+    { key: 'ringWidth', label: 'Ring Width', min: 0.02, max: 0.3, step: 0.01, default: 0.08 },
+    { key: 'coreFraction', label: 'Stars in Core', min: 0, max: 0.5, step: 0.01, default: 0.2 },
+    { key: 'coreSize', label: 'Core Size', min: 0.05, max: 0.4, step: 0.01, default: 0.15 },
+  ],
+  createPlacer: ({ radius }, shape, random) => (_index, positions, offset) => {
+    if (random() < shape.coreFraction) {
+      // Compact spherical core, separated from the ring by a dark gap
+      const r = Math.pow(random(), 2) * shape.coreSize * radius;
+      const theta = random() * 2 * Math.PI;
+      const phi = Math.acos(2 * random() - 1);
+      positions[offset] = r * Math.sin(phi) * Math.cos(theta);
+      positions[offset + 1] = r * Math.cos(phi);
+      positions[offset + 2] = r * Math.sin(phi) * Math.sin(theta);
+      return Math.hypot(positions[offset], positions[offset + 2]);
+    }
+
+    const r = shape.ringRadius * radius + scatter(random, 2, shape.ringWidth * radius);
+    const angle = random() * 2 * Math.PI;
+    positions[offset] = Math.cos(angle) * r;
+    positions[offset + 1] = scatter(random, 2, shape.ringWidth * radius * 0.5);
+    positions[offset + 2] = Math.sin(angle) * r;
+    return r;
+  },
+  // Systems sit on the ring whatever their nominal radius
+  anchor: (_radius, branch, params, shape, target) => {
+    const r = shape.ringRadius * params.radius;
+    const angle = branchAngle(branch, params.branches);
+    return target.set(Math.cos(angle) * r, 0, Math.sin(angle) * r);
+  },
+};
+
+export const MORPHOLOGIES: Record<MorphologyId, MorphologyDefinition> = { spiral, barred, elliptical, irregular, ring };
+
+export const MORPHOLOGY_ORDER: MorphologyId[] = ['spiral', 'barred', 'elliptical', 'irregular', 'ring'];
+
+// Own keys only, so ids like "toString" from untrusted input fall back too
+export const getMorphology = (id: MorphologyId) => (Object.hasOwn(MORPHOLOGIES, id) ? MORPHOLOGIES[id] : spiral);
+
+/**
+ * The morphology's parameter values, with defaults for any that are not set
+ */
+export const morphologyValues = ({ morphology, morphologyParams }: GalaxyParams) => {
+  const values: Record<string, number> = {};
+  for (const spec of getMorphology(morphology).params) {
+    values[spec.key] = morphologyParams[spec.key] ?? spec.default;
+  }
+  return values;
+};
+
+/**
+ * Switches morphology, starting its own parameters from their defaults
+ */
+export const withMorphology = (params: GalaxyParams, morphology: MorphologyId): GalaxyParams => ({
+  ...params,
+  morphology,
+  morphologyParams: {},
+});
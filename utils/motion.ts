@@ -0,0 +1,33 @@
+export const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+// Simulation clock speed (galaxy rotation, ring spin, orbits) while reduced motion is on
+export const REDUCED_MOTION_SCALE = 0.15;
+
+// Seconds for the fade out and back in that replaces camera flights
+export const CROSSFADE_DURATION = 0.6;
+
+const STORAGE_KEY = 'cosmos.reducedMotion';
+
+export const prefersReducedMotion = () => window.matchMedia?.(REDUCED_MOTION_QUERY).matches ?? false;
+
+/**
+ * The user's explicit choice, or null to follow the OS setting
+ */
+export const loadMotionOverride = (): boolean | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === 'reduced') return true;
+    if (stored === 'full') return false;
+  } catch {
+    // Storage unavailable
+  }
+  return null;
+};
+
+export const saveMotionOverride = (reduced: boolean) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, reduced ? 'reduced' : 'full');
+  } catch {
+    // Storage unavailable
+  }
+};
@@ -0,0 +1,15 @@
+import { createGeminiNarrator } from './geminiNarrator';
+import { mockNarrator } from './mockNarrator';
+import { NarratorProvider } from '../types';
+
+// Defined by vite.config.ts for the dev server only; production builds always get an empty string
+const apiKey = process.env.GEMINI_API_KEY;
+
+/**
+ * The narrator for this session: Gemini when a key is configured, otherwise the offline mock.
+ * `?narrator=mock` in the URL forces the mock, e.g. to work offline with a key set.
+ */
+export const narrator: NarratorProvider =
+  apiKey && new URLSearchParams(window.location.search).get('narrator') !== 'mock'
+    ? createGeminiNarrator(apiKey)
+    : mockNarrator;
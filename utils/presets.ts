@@ -0,0 +1,65 @@
+import { GalaxyParams, GalaxyPreset } from '../types';
+import { parseGalaxyParams } from './galaxy';
+import { LocalizedError } from './errors';
+
+const STORAGE_KEY = 'cosmos.galaxyPresets';
+
+/**
+ * Named galaxy presets persisted in localStorage.
+ * Corrupt or foreign entries are dropped rather than breaking the editor.
+ */
+export const loadPresets = (): GalaxyPreset[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const stored = JSON.parse(raw);
+    if (!Array.isArray(stored)) return [];
+
+    const presets: GalaxyPreset[] = [];
+    for (const entry of stored) {
+      try {
+        if (typeof entry?.name !== 'string') continue;
+        presets.push({ name: entry.name, params: parseGalaxyParams(entry.params) });
+      } catch {
+        // Skip invalid preset
+      }
+    }
+    return presets;
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Stores the presets and returns them, or null when storage is full or disabled
+ */
+const writePresets = (presets: GalaxyPreset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+    return presets;
+  } catch {
+    // Storage unavailable
+    return null;
+  }
+};
+
+/**
+ * Saves a preset, replacing any existing one with the same name. Null if it could not be stored.
+ */
+export const savePreset = (name: string, params: GalaxyParams) =>
+  writePresets([...loadPresets().filter((preset) => preset.name !== name), { name, params }]);
+
+export const deletePreset = (name: string) =>
+  writePresets(loadPresets().filter((preset) => preset.name !== name));
+
+export const exportParams = (params: GalaxyParams) => JSON.stringify(params, null, 2);
+
+export const importParams = (json: string) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new LocalizedError('editor.invalidJson');
+  }
+  return parseGalaxyParams(parsed);
+};
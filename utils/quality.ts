@@ -0,0 +1,35 @@
+import { QualitySetting, QualitySettings, QualityTier } from '../types';
+
+export const QUALITY_TIERS: Record<QualityTier, QualitySettings> = {
+  low: { particleScale: 0.3, maxDpr: 1, sphereSegments: 12, backgroundStars: 1000, nebulaLayers: 2, lensingSteps: 0, postEffects: [] },
+  medium: { particleScale: 0.6, maxDpr: 1.5, sphereSegments: 20, backgroundStars: 2000, nebulaLayers: 4, lensingSteps: 48, postEffects: ['bloom', 'vignette', 'grain'] },
+  high: { particleScale: 1, maxDpr: 2, sphereSegments: 32, backgroundStars: 3000, nebulaLayers: 6, lensingSteps: 96, postEffects: ['bloom', 'vignette', 'grain', 'chromaticAberration', 'depthOfField'] },
+};
+
+export const QUALITY_ORDER: QualityTier[] = ['low', 'medium', 'high'];
+
+/**
+ * Next tier up (+1) or down (-1), clamped to the available tiers
+ */
+export const stepQuality = (tier: QualityTier, direction: 1 | -1) =>
+  QUALITY_ORDER[Math.min(QUALITY_ORDER.length - 1, Math.max(0, QUALITY_ORDER.indexOf(tier) + direction))];
+
+const STORAGE_KEY = 'cosmos.quality';
+
+export const loadQualitySetting = (): QualitySetting => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === 'auto' || (stored && stored in QUALITY_TIERS)) return stored as QualitySetting;
+  } catch {
+    // Storage unavailable
+  }
+  return 'auto';
+};
+
+export const saveQualitySetting = (setting: QualitySetting) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, setting);
+  } catch {
+    // Storage unavailable
+  }
+};
@@ -0,0 +1,45 @@
+/**
+ * Seedable pseudo-random number generation.
+ * Every procedural generator takes a RandomFn so the same seed always yields the same universe.
+ */
+export type RandomFn = () => number;
+
+export const DEFAULT_SEED = 1337;
+
+/**
+ * FNV-1a hash, used to derive independent streams from one seed
+ */
+export const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Mulberry32 generator returning floats in [0, 1).
+ * The stream name keeps generators independent of each other's call order.
+ */
+export const createRandom = (seed: number, stream = ''): RandomFn => {
+  let state = (seed ^ hashString(stream)) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * A fresh seed for the "new galaxy" action. This is the only place allowed to use Math.random.
+ */
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
+
+export const parseSeed = (value: string | null | undefined) => {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const seed = Number(value);
+  return seed <= 0xffffffff ? seed : null;
+};
@@ -0,0 +1,63 @@
+import { CameraPose, Vec3Tuple } from '../types';
+import { parseSeed } from './random';
+
+/**
+ * Client-side routes:
+ *   /                    hero screen
+ *   /explore             free exploration
+ *   /explore/:systemId   exploration focused on one star system
+ *
+ * Optional query params carry the view: ?seed=1337&cam=x,y,z&look=x,y,z
+ */
+export type Route =
+  | { name: 'hero' }
+  | { name: 'explore'; systemId: string | null };
+
+export interface ViewQuery {
+  seed: number | null;
+  camera: CameraPose | null;
+}
+
+export const parseRoute = (pathname: string): Route => {
+  const segments = pathname.split('/').filter(Boolean);
+  if (segments[0] !== 'explore') return { name: 'hero' };
+  return { name: 'explore', systemId: segments[1] ? decodeURIComponent(segments[1]) : null };
+};
+
+export const routePath = (route: Route) => {
+  if (route.name === 'hero') return '/';
+  return route.systemId ? `/explore/${encodeURIComponent(route.systemId)}` : '/explore';
+};
+
+const parseVec3 = (value: string | null): Vec3Tuple | null => {
+  if (!value) return null;
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 3 || parts.some((n) => !Number.isFinite(n))) return null;
+  return parts as Vec3Tuple;
+};
+
+const formatVec3 = (value: Vec3Tuple) => value.map((n) => Number(n.toFixed(2))).join(',');
+
+export const parseViewQuery = (search: string): ViewQuery => {
+  const params = new URLSearchParams(search);
+  const position = parseVec3(params.get('cam'));
+  const target = parseVec3(params.get('look'));
+
+  return {
+    seed: parseSeed(params.get('seed')),
+    camera: position ? { position, target: target ?? [0, 0, 0] } : null,
+  };
+};
+
+/**
+ * Absolute URL that reproduces the given route, galaxy and camera pose
+ */
+export const buildShareUrl = (route: Route, seed: number, camera: CameraPose | null) => {
+  const url = new URL(routePath(route), window.location.origin);
+  url.searchParams.set('seed', String(seed));
+  if (camera) {
+    url.searchParams.set('cam', formatVec3(camera.position));
+    url.searchParams.set('look', formatVec3(camera.target));
+  }
+  return url.toString();
+};
@@ -0,0 +1,77 @@
+import { StarSystemDefinition } from '../types';
+
+export interface FuzzyMatch {
+  score: number;
+  // Indices of the matched characters, for highlighting
+  indices: number[];
+}
+
+export interface SystemSearchResult {
+  system: StarSystemDefinition;
+  // The text that matched best, e.g. the name or one description line
+  text: string;
+  match: FuzzyMatch;
+}
+
+// Name matches outrank equally good description matches
+const NAME_WEIGHT = 2;
+const MAX_RESULTS = 8;
+
+const isWordStart = (text: string, index: number) => index === 0 || /[\s\-_.]/.test(text[index - 1]);
+
+/**
+ * Matches `query` as a subsequence of `text`, case-insensitively.
+ * Consecutive characters and word starts score higher, so "gs" prefers "Golden System" over "glass".
+ */
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return null;
+  const haystack = text.toLowerCase();
+
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+
+    const previous = indices[indices.length - 1];
+    score += 1;
+    if (previous !== undefined && index === previous + 1) score += 2;
+    if (isWordStart(text, index)) score += 3;
+    indices.push(index);
+    from = index + 1;
+  }
+
+  // Tighter matches in shorter text rank first
+  score -= (indices[indices.length - 1] - indices[0]) * 0.1 + text.length * 0.01;
+  return { score, indices };
+};
+
+/**
+ * Systems whose name or description fuzzy-match `query`, best first
+ */
+export const searchSystems = (query: string, systems: StarSystemDefinition[]): SystemSearchResult[] => {
+  const results: SystemSearchResult[] = [];
+
+  for (const system of systems) {
+    // Spaced, so the second part counts as a word start: "gs" finds "Golden System"
+    const name = `${system.label.title} ${system.label.highlight}`;
+    const candidates = [
+      { text: name, weight: NAME_WEIGHT },
+      { text: system.details.subtitle, weight: 1 },
+      ...system.description.map((line) => ({ text: line, weight: 1 })),
+    ];
+
+    let best: SystemSearchResult | null = null;
+    for (const { text, weight } of candidates) {
+      const match = fuzzyMatch(query, text);
+      if (match && (!best || match.score * weight > best.match.score)) {
+        best = { system, text, match: { ...match, score: match.score * weight } };
+      }
+    }
+    if (best) results.push(best);
+  }
+
+  return results.sort((a, b) => b.match.score - a.match.score).slice(0, MAX_RESULTS);
+};
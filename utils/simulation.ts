@@ -0,0 +1,29 @@
+import { SimulationPlayback } from '../types';
+
+/**
+ * One simulation clock drives every animation in the scene: galaxy rotation, system orbits, ring and
+ * cluster spin, breathing and planets are all pure functions of its time, so setting the clock back to T
+ * reproduces the exact configuration at T. Only UI transitions (flights, fades, morphs) run on wall time.
+ */
+export const DEFAULT_SIMULATION: SimulationPlayback = { playing: true, speed: 1 };
+
+// Speed multipliers offered in the explore UI; negative runs the simulation backwards
+export const SIMULATION_SPEEDS = [-4, -1, 0.25, 1, 4, 16];
+
+// The hero backdrop runs at half speed, behind the title
+export const HERO_TIME_SCALE = 0.5;
+
+// Seconds the scrubber covers at least; it widens to include wherever the clock has run to
+export const SCRUB_SPAN = 600;
+
+export const formatSpeed = (speed: number) => `${speed === 0.25 ? '¼' : speed}×`;
+
+/**
+ * Signed minutes and seconds, e.g. -2:05.3
+ */
+export const formatSimulationTime = (seconds: number) => {
+  const sign = seconds < 0 ? '-' : '';
+  const total = Math.abs(seconds);
+  const minutes = Math.floor(total / 60);
+  return `${sign}${minutes}:${(total % 60).toFixed(1).padStart(4, '0')}`;
+};
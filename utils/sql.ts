@@ -0,0 +1,652 @@
+/**
+ * A small in-memory SQL engine for the WisdomSQL console.
+ * Supports single SELECT statements: joins, WHERE, GROUP BY / HAVING with aggregates, ORDER BY, LIMIT and DISTINCT.
+ * Every result row remembers which source rows produced it, so the console can point at them in the scene.
+ */
+
+import { LocalizedError, LocalizedText } from './errors';
+
+export type SqlValue = number | string | boolean | null;
+
+export interface SqlTable {
+  columns: string[];
+  rows: Record<string, SqlValue>[];
+  // Column whose value names the scene object behind each row
+  objectColumn?: string;
+}
+
+export type SqlDatabase = Record<string, SqlTable>;
+
+export interface SqlResult {
+  columns: string[];
+  rows: SqlValue[][];
+  // Scene objects behind the result rows, in first-seen order
+  objects: string[];
+}
+
+export type SqlTokenType = 'keyword' | 'function' | 'identifier' | 'number' | 'string' | 'operator' | 'punctuation' | 'comment' | 'whitespace' | 'unknown';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  text: string;
+  start: number;
+}
+
+const KEYWORDS = new Set([
+  'SELECT', 'DISTINCT', 'FROM', 'WHERE', 'GROUP', 'BY', 'HAVING', 'ORDER', 'ASC', 'DESC', 'LIMIT', 'AS',
+  'AND', 'OR', 'NOT', 'IN', 'IS', 'NULL', 'LIKE', 'BETWEEN', 'JOIN', 'INNER', 'LEFT', 'ON', 'TRUE', 'FALSE',
+]);
+
+const AGGREGATES = new Set(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX']);
+
+const SCALAR_FUNCTIONS: Record<string, (...args: SqlValue[]) => SqlValue> = {
+  UPPER: (value) => (value === null ? null : String(value).toUpperCase()),
+  LOWER: (value) => (value === null ? null : String(value).toLowerCase()),
+  LENGTH: (value) => (value === null ? null : String(value).length),
+  ABS: (value) => (value === null ? null : Math.abs(Number(value))),
+  ROUND: (value, digits = 0) => {
+    if (value === null) return null;
+    const factor = Math.pow(10, Number(digits));
+    return Math.round(Number(value) * factor) / factor;
+  },
+  COALESCE: (...values) => values.find((value) => value !== null) ?? null,
+};
+
+export const SQL_FUNCTIONS = [...AGGREGATES, ...Object.keys(SCALAR_FUNCTIONS)];
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '||', '=', '<', '>', '+', '-', '*', '/', '%'];
+
+/**
+ * Splits `source` into tokens, whitespace and comments included, so the editor can color every character.
+ * Never throws: characters it cannot place become 'unknown' tokens, which the parser then rejects.
+ */
+export const tokenize = (source: string): SqlToken[] => {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  const push = (type: SqlTokenType, end: number) => {
+    tokens.push({ type, text: source.slice(i, end), start: i });
+    i = end;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    const rest = source.slice(i);
+
+    if (/\s/.test(char)) {
+      push('whitespace', i + (rest.match(/^\s+/)?.[0].length ?? 1));
+    } else if (rest.startsWith('--')) {
+      const end = source.indexOf('\n', i);
+      push('comment', end === -1 ? source.length : end);
+    } else if (char === "'") {
+      // '' is an escaped quote; an unterminated string runs to the end
+      const match = rest.match(/^'(?:[^']|'')*'?/);
+      push('string', i + (match?.[0].length ?? 1));
+    } else if (char === '"') {
+      const end = source.indexOf('"', i + 1);
+      push('identifier', end === -1 ? source.length : end + 1);
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      push('number', i + (rest.match(/^(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i)?.[0].length ?? 1));
+    } else if (/[A-Za-z_]/.test(char)) {
+      const word = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/)![0];
+      const upper = word.toUpperCase();
+      const callsFunction = /^\s*\(/.test(source.slice(i + word.length));
+      const type = KEYWORDS.has(upper) ? 'keyword' : callsFunction && SQL_FUNCTIONS.includes(upper) ? 'function' : 'identifier';
+      push(type, i + word.length);
+    } else {
+      const operator = OPERATORS.find((op) => rest.startsWith(op));
+      if (operator) push('operator', i + operator.length);
+      else push(/[(),.;]/.test(char) ? 'punctuation' : 'unknown', i + 1);
+    }
+  }
+  return tokens;
+};
+
+// --- Syntax tree ---
+
+type Expr =
+  | { kind: 'literal'; value: SqlValue }
+  | { kind: 'column'; table: string | null; name: string }
+  | { kind: 'unary'; op: 'NOT' | '-'; operand: Expr }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr }
+  | { kind: 'like'; negated: boolean; value: Expr; pattern: Expr }
+  | { kind: 'in'; negated: boolean; value: Expr; list: Expr[] }
+  | { kind: 'between'; negated: boolean; value: Expr; low: Expr; high: Expr }
+  | { kind: 'isNull'; negated: boolean; value: Expr }
+  | { kind: 'call'; name: string; args: Expr[]; star: boolean; distinct: boolean };
+
+type SelectItem = { kind: 'star'; table: string | null } | { kind: 'expr'; expr: Expr; name: string };
+
+interface TableRef {
+  table: string;
+  alias: string;
+}
+
+interface Join extends TableRef {
+  left: boolean;
+  on: Expr;
+}
+
+interface SelectStatement {
+  distinct: boolean;
+  items: SelectItem[];
+  from: TableRef;
+  joins: Join[];
+  where: Expr | null;
+  groupBy: Expr[];
+  having: Expr | null;
+  orderBy: { expr: Expr; descending: boolean }[];
+  limit: number | null;
+}
+
+// --- Parser ---
+
+const parse = (source: string): SelectStatement => {
+  const tokens = tokenize(source).filter((token) => token.type !== 'whitespace' && token.type !== 'comment');
+  let position = 0;
+
+  const peek = (offset = 0): SqlToken | undefined => tokens[position + offset];
+  const describe = (token: SqlToken | undefined): string | LocalizedText => (token ? `"${token.text}"` : { key: 'sql.endOfQuery' });
+  const fail = (expected: string | LocalizedText): never => {
+    throw new LocalizedError('sql.expected', { expected, found: describe(peek()) });
+  };
+  const isKeyword = (word: string, offset = 0) => peek(offset)?.type === 'keyword' && peek(offset)!.text.toUpperCase() === word;
+  const isSymbol = (text: string) => peek()?.type !== 'string' && peek()?.text === text;
+  const acceptKeyword = (word: string) => (isKeyword(word) ? (position++, true) : false);
+  const acceptSymbol = (text: string) => (isSymbol(text) ? (position++, true) : false);
+  const expectKeyword = (word: string) => acceptKeyword(word) || fail(word);
+  const expectSymbol = (text: string) => acceptSymbol(text) || fail(`"${text}"`);
+
+  const identifier = (): string => {
+    const token = peek();
+    if (token?.type !== 'identifier') return fail({ key: 'sql.aName' });
+    position++;
+    return token.text.startsWith('"') ? token.text.slice(1, -1) : token.text.toLowerCase();
+  };
+
+  const expression = (): Expr => or();
+
+  const or = (): Expr => {
+    let left = and();
+    while (acceptKeyword('OR')) left = { kind: 'binary', op: 'OR', left, right: and() };
+    return left;
+  };
+
+  const and = (): Expr => {
+    let left = not();
+    while (acceptKeyword('AND')) left = { kind: 'binary', op: 'AND', left, right: not() };
+    return left;
+  };
+
+  const not = (): Expr => (acceptKeyword('NOT') ? { kind: 'unary', op: 'NOT', operand: not() } : comparison());
+
+  const comparison = (): Expr => {
+    const value = additive();
+
+    if (acceptKeyword('IS')) {
+      const negated = acceptKeyword('NOT');
+      expectKeyword('NULL');
+      return { kind: 'isNull', negated, value };
+    }
+
+    const negated = isKeyword('NOT') && (isKeyword('LIKE', 1) || isKeyword('IN', 1) || isKeyword('BETWEEN', 1));
+    if (negated) position++;
+    if (acceptKeyword('LIKE')) return { kind: 'like', negated, value, pattern: additive() };
+    if (acceptKeyword('BETWEEN')) {
+      const low = additive();
+      expectKeyword('AND');
+      return { kind: 'between', negated, value, low, high: additive() };
+    }
+    if (acceptKeyword('IN')) {
+      expectSymbol('(');
+      const list = [expression()];
+      while (acceptSymbol(',')) list.push(expression());
+      expectSymbol(')');
+      return { kind: 'in', negated, value, list };
+    }
+
+    const token = peek();
+    if (token?.type === 'operator' && ['=', '!=', '<>', '<', '<=', '>', '>='].includes(token.text)) {
+      position++;
+      return { kind: 'binary', op: token.text === '<>' ? '!=' : token.text, left: value, right: additive() };
+    }
+    return value;
+  };
+
+  const additive = (): Expr => {
+    let left = multiplicative();
+    while (peek()?.type === 'operator' && ['+', '-', '||'].includes(peek()!.text)) {
+      const op = tokens[position++].text;
+      left = { kind: 'binary', op, left, right: multiplicative() };
+    }
+    return left;
+  };
+
+  const multiplicative = (): Expr => {
+    let left = unary();
+    while (peek()?.type === 'operator' && ['*', '/', '%'].includes(peek()!.text)) {
+      const op = tokens[position++].text;
+      left = { kind: 'binary', op, left, right: unary() };
+    }
+    return left;
+  };
+
+  const unary = (): Expr => {
+    if (peek()?.type === 'operator' && peek()!.text === '-') {
+      position++;
+      return { kind: 'unary', op: '-', operand: unary() };
+    }
+    return primary();
+  };
+
+  const primary = (): Expr => {
+    const token = peek();
+    if (!token) return fail({ key: 'sql.aValue' });
+
+    if (token.type === 'number') {
+      position++;
+      return { kind: 'literal', value: Number(token.text) };
+    }
+    if (token.type === 'string') {
+      position++;
+      if (token.text.length < 2 || !token.text.endsWith("'")) throw new LocalizedError('sql.unterminatedString');
+      return { kind: 'literal', value: token.text.slice(1, -1).replace(/''/g, "'") };
+    }
+    if (acceptKeyword('NULL')) return { kind: 'literal', value: null };
+    if (acceptKeyword('TRUE')) return { kind: 'literal', value: true };
+    if (acceptKeyword('FALSE')) return { kind: 'literal', value: false };
+    if (acceptSymbol('(')) {
+      const inner = expression();
+      expectSymbol(')');
+      return inner;
+    }
+    if (token.type === 'function') {
+      position++;
+      const name = token.text.toUpperCase();
+      expectSymbol('(');
+      if (name === 'COUNT' && peek()?.text === '*') {
+        position++;
+        expectSymbol(')');
+        return { kind: 'call', name, args: [], star: true, distinct: false };
+      }
+      const distinct = acceptKeyword('DISTINCT');
+      const args: Expr[] = [];
+      if (!isSymbol(')')) {
+        args.push(expression());
+        while (acceptSymbol(',')) args.push(expression());
+      }
+      expectSymbol(')');
+      return { kind: 'call', name, args, star: false, distinct };
+    }
+    if (token.type === 'identifier') {
+      const first = identifier();
+      if (acceptSymbol('.')) return { kind: 'column', table: first, name: identifier() };
+      return { kind: 'column', table: null, name: first };
+    }
+    return fail({ key: 'sql.aValue' });
+  };
+
+  const tableRef = (): TableRef => {
+    const table = identifier();
+    acceptKeyword('AS');
+    const alias = peek()?.type === 'identifier' ? identifier() : table;
+    return { table, alias };
+  };
+
+  const selectItem = (): SelectItem => {
+    if (acceptSymbol('*')) return { kind: 'star', table: null };
+    if (peek()?.type === 'identifier' && peek(1)?.text === '.' && peek(2)?.text === '*') {
+      const table = identifier();
+      position += 2;
+      return { kind: 'star', table };
+    }
+    if (!peek()) fail({ key: 'sql.aColumn' });
+    const start = peek()!.start;
+    const expr = expression();
+    const end = tokens[position - 1].start + tokens[position - 1].text.length;
+    if (acceptKeyword('AS') || peek()?.type === 'identifier') return { kind: 'expr', expr, name: identifier() };
+    return { kind: 'expr', expr, name: expr.kind === 'column' ? expr.name : source.slice(start, end) };
+  };
+
+  expectKeyword('SELECT');
+  const distinct = acceptKeyword('DISTINCT');
+  if (!peek()) fail({ key: 'sql.aColumnList' });
+  const items = [selectItem()];
+  while (acceptSymbol(',')) items.push(selectItem());
+
+  expectKeyword('FROM');
+  const from = tableRef();
+  const joins: Join[] = [];
+  for (;;) {
+    const left = acceptKeyword('LEFT');
+    if (!left) acceptKeyword('INNER');
+    if (!acceptKeyword('JOIN')) {
+      if (left) fail('JOIN');
+      break;
+    }
+    const ref = tableRef();
+    expectKeyword('ON');
+    joins.push({ ...ref, left, on: expression() });
+  }
+
+  const where = acceptKeyword('WHERE') ? expression() : null;
+
+  const groupBy: Expr[] = [];
+  if (acceptKeyword('GROUP')) {
+    expectKeyword('BY');
+    groupBy.push(expression());
+    while (acceptSymbol(',')) groupBy.push(expression());
+  }
+  const having = acceptKeyword('HAVING') ? expression() : null;
+
+  const orderBy: SelectStatement['orderBy'] = [];
+  if (acceptKeyword('ORDER')) {
+    expectKeyword('BY');
+    do {
+      const expr = expression();
+      const descending = acceptKeyword('DESC');
+      if (!descending) acceptKeyword('ASC');
+      orderBy.push({ expr, descending });
+    } while (acceptSymbol(','));
+  }
+
+  let limit: number | null = null;
+  if (acceptKeyword('LIMIT')) {
+    const token = peek();
+    if (token?.type !== 'number') fail({ key: 'sql.aRowCount' });
+    position++;
+    limit = Math.max(0, Math.floor(Number(token!.text)));
+  }
+
+  acceptSymbol(';');
+  if (peek()) fail({ key: 'sql.endOfQuery' });
+
+  return { distinct, items, from, joins, where, groupBy, having, orderBy, limit };
+};
+
+// --- Evaluation ---
+
+// One row of the joined FROM clause: each alias maps to its table's row, or null for an unmatched LEFT JOIN
+interface JoinedRow {
+  tables: Record<string, Record<string, SqlValue> | null>;
+  objects: string[];
+}
+
+interface Scope {
+  row: JoinedRow;
+  // Rows of the current group, when aggregating
+  group: JoinedRow[] | null;
+  // Output columns by name, for ORDER BY and HAVING
+  outputs?: Record<string, SqlValue>;
+}
+
+const truthy = (value: SqlValue) => value !== null && value !== false && value !== 0 && value !== '';
+
+const compare = (a: SqlValue, b: SqlValue) => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' || typeof b === 'boolean') return Number(a) - Number(b);
+  return String(a).localeCompare(String(b));
+};
+
+const likePattern = (pattern: string) =>
+  new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.')}$`, 'i');
+
+const containsAggregate = (expr: Expr): boolean => {
+  switch (expr.kind) {
+    case 'call':
+      return AGGREGATES.has(expr.name) || expr.args.some(containsAggregate);
+    case 'unary':
+      return containsAggregate(expr.operand);
+    case 'binary':
+      return containsAggregate(expr.left) || containsAggregate(expr.right);
+    case 'like':
+      return containsAggregate(expr.value) || containsAggregate(expr.pattern);
+    case 'in':
+      return containsAggregate(expr.value) || expr.list.some(containsAggregate);
+    case 'between':
+      return [expr.value, expr.low, expr.high].some(containsAggregate);
+    case 'isNull':
+      return containsAggregate(expr.value);
+    default:
+      return false;
+  }
+};
+
+const createEvaluator = (database: SqlDatabase, refs: TableRef[]) => {
+  const columnsOf = (ref: TableRef) => database[ref.table].columns;
+
+  const lookup = (scope: Scope, table: string | null, name: string): SqlValue => {
+    if (table === null && scope.outputs && name in scope.outputs) return scope.outputs[name];
+    const owners = refs.filter((ref) => (table === null || ref.alias === table) && columnsOf(ref).includes(name));
+    if (owners.length === 0) {
+      if (table !== null && !refs.some((ref) => ref.alias === table)) throw new LocalizedError('sql.unknownTable', { table });
+      throw new LocalizedError('sql.unknownColumn', { column: table ? `${table}.${name}` : name });
+    }
+    if (owners.length > 1) throw new LocalizedError('sql.ambiguousColumn', { column: name });
+    return scope.row.tables[owners[0].alias]?.[name] ?? null;
+  };
+
+  const evaluate = (expr: Expr, scope: Scope): SqlValue => {
+    switch (expr.kind) {
+      case 'literal':
+        return expr.value;
+      case 'column':
+        return lookup(scope, expr.table, expr.name);
+      case 'unary': {
+        const operand = evaluate(expr.operand, scope);
+        if (expr.op === 'NOT') return operand === null ? null : !truthy(operand);
+        return operand === null ? null : -Number(operand);
+      }
+      case 'binary': {
+        // Three-valued logic: NULL is unknown, and stays unknown unless the other side settles the result
+        if (expr.op === 'AND' || expr.op === 'OR') {
+          const settles = expr.op === 'OR';
+          const left = evaluate(expr.left, scope);
+          if (left !== null && truthy(left) === settles) return settles;
+          const right = evaluate(expr.right, scope);
+          if (right !== null && truthy(right) === settles) return settles;
+          return left === null || right === null ? null : !settles;
+        }
+        const left = evaluate(expr.left, scope);
+        const right = evaluate(expr.right, scope);
+        if (left === null || right === null) return null;
+        switch (expr.op) {
+          case '=': return compare(left, right) === 0;
+          case '!=': return compare(left, right) !== 0;
+          case '<': return compare(left, right) < 0;
+          case '<=': return compare(left, right) <= 0;
+          case '>': return compare(left, right) > 0;
+          case '>=': return compare(left, right) >= 0;
+          case '||': return `${left}${right}`;
+          case '+': return Number(left) + Number(right);
+          case '-': return Number(left) - Number(right);
+          case '*': return Number(left) * Number(right);
+          case '/': return Number(right) === 0 ? null : Number(left) / Number(right);
+          case '%': return Number(right) === 0 ? null : Number(left) % Number(right);
+        }
+        throw new LocalizedError('sql.unknownOperator', { operator: expr.op });
+      }
+      case 'like': {
+        const value = evaluate(expr.value, scope);
+        const pattern = evaluate(expr.pattern, scope);
+        if (value === null || pattern === null) return null;
+        return likePattern(String(pattern)).test(String(value)) !== expr.negated;
+      }
+      case 'in': {
+        const value = evaluate(expr.value, scope);
+        if (value === null) return null;
+        return expr.list.some((item) => compare(value, evaluate(item, scope)) === 0) !== expr.negated;
+      }
+      case 'between': {
+        const value = evaluate(expr.value, scope);
+        if (value === null) return null;
+        const inside = compare(value, evaluate(expr.low, scope)) >= 0 && compare(value, evaluate(expr.high, scope)) <= 0;
+        return inside !== expr.negated;
+      }
+      case 'isNull':
+        return (evaluate(expr.value, scope) === null) !== expr.negated;
+      case 'call': {
+        if (!AGGREGATES.has(expr.name)) {
+          return SCALAR_FUNCTIONS[expr.name](...expr.args.map((arg) => evaluate(arg, scope)));
+        }
+        if (!scope.group) throw new LocalizedError('sql.notHere', { name: expr.name });
+        if (expr.star) return scope.group.length;
+        if (expr.args.length !== 1) throw new LocalizedError('sql.oneArgument', { name: expr.name });
+
+        let values = scope.group
+          .map((row) => evaluate(expr.args[0], { row, group: null }))
+          .filter((value): value is Exclude<SqlValue, null> => value !== null);
+        if (expr.distinct) values = [...new Set(values)];
+
+        switch (expr.name) {
+          case 'COUNT': return values.length;
+          case 'SUM': return values.length ? values.reduce<number>((sum, value) => sum + Number(value), 0) : null;
+          case 'AVG': return values.length ? values.reduce<number>((sum, value) => sum + Number(value), 0) / values.length : null;
+          case 'MIN': return values.length ? values.reduce((min, value) => (compare(value, min) < 0 ? value : min)) : null;
+          case 'MAX': return values.length ? values.reduce((max, value) => (compare(value, max) > 0 ? value : max)) : null;
+        }
+        return null;
+      }
+    }
+  };
+
+  return evaluate;
+};
+
+/**
+ * Runs one SELECT statement against `database`. Throws a LocalizedError explaining what is wrong with invalid queries.
+ */
+export const executeQuery = (database: SqlDatabase, source: string): SqlResult => {
+  const statement = parse(source);
+  const refs = [statement.from, ...statement.joins];
+  for (const ref of refs) {
+    if (!database[ref.table]) throw new LocalizedError('sql.unknownTableListed', { table: ref.table, tables: Object.keys(database).join(', ') });
+  }
+  const evaluate = createEvaluator(database, refs);
+
+  const objectsOf = (ref: TableRef, row: Record<string, SqlValue>) => {
+    const column = database[ref.table].objectColumn;
+    return column && typeof row[column] === 'string' ? [row[column] as string] : [];
+  };
+
+  // FROM and JOINs, as nested loops
+  let rows: JoinedRow[] = database[statement.from.table].rows.map((row) => ({
+    tables: { [statement.from.alias]: row },
+    objects: objectsOf(statement.from, row),
+  }));
+  for (const join of statement.joins) {
+    const joined: JoinedRow[] = [];
+    for (const row of rows) {
+      let matched = false;
+      for (const other of database[join.table].rows) {
+        const candidate = { tables: { ...row.tables, [join.alias]: other }, objects: [...row.objects, ...objectsOf(join, other)] };
+        if (truthy(evaluate(join.on, { row: candidate, group: null }))) {
+          joined.push(candidate);
+          matched = true;
+        }
+      }
+      if (!matched && join.left) joined.push({ tables: { ...row.tables, [join.alias]: null }, objects: row.objects });
+    }
+    rows = joined;
+  }
+
+  if (statement.where) {
+    const where = statement.where;
+    if (containsAggregate(where)) throw new LocalizedError('sql.aggregateInWhere');
+    rows = rows.filter((row) => truthy(evaluate(where, { row, group: null })));
+  }
+
+  // Output columns
+  const columns: string[] = [];
+  const getters: ((scope: Scope) => SqlValue)[] = [];
+  for (const item of statement.items) {
+    if (item.kind === 'expr') {
+      columns.push(item.name);
+      getters.push((scope) => evaluate(item.expr, scope));
+      continue;
+    }
+    const starRefs = refs.filter((ref) => item.table === null || ref.alias === item.table);
+    if (starRefs.length === 0) throw new LocalizedError('sql.unknownTable', { table: item.table });
+    for (const ref of starRefs) {
+      for (const column of database[ref.table].columns) {
+        columns.push(column);
+        getters.push((scope) => scope.row.tables[ref.alias]?.[column] ?? null);
+      }
+    }
+  }
+
+  // Grouping: GROUP BY, or one group over everything when aggregates appear without it
+  const aggregated =
+    statement.groupBy.length > 0 ||
+    statement.items.some((item) => item.kind === 'expr' && containsAggregate(item.expr)) ||
+    (statement.having !== null && containsAggregate(statement.having));
+
+  let scopes: Scope[];
+  if (aggregated) {
+    const groups = new Map<string, JoinedRow[]>();
+    for (const row of rows) {
+      const key = JSON.stringify(statement.groupBy.map((expr) => evaluate(expr, { row, group: null })));
+      const group = groups.get(key);
+      if (group) group.push(row);
+      else groups.set(key, [row]);
+    }
+    if (groups.size === 0 && statement.groupBy.length === 0) groups.set('', []);
+    scopes = [...groups.values()].map((group) => ({
+      row: group[0] ?? { tables: {}, objects: [] },
+      group,
+    }));
+  } else {
+    scopes = rows.map((row) => ({ row, group: null }));
+  }
+
+  let output = scopes.map((scope) => {
+    const values = getters.map((get) => get(scope));
+    const outputs: Record<string, SqlValue> = {};
+    columns.forEach((column, i) => {
+      if (!(column in outputs)) outputs[column] = values[i];
+    });
+    const objects = scope.group ? scope.group.flatMap((row) => row.objects) : scope.row.objects;
+    return { scope: { ...scope, outputs }, values, objects };
+  });
+
+  if (statement.having) {
+    const having = statement.having;
+    output = output.filter(({ scope }) => truthy(evaluate(having, scope)));
+  }
+
+  if (statement.orderBy.length > 0) {
+    // ORDER BY 2 sorts by the second output column
+    const keyOf = (expr: Expr, entry: (typeof output)[number]) =>
+      expr.kind === 'literal' && typeof expr.value === 'number' ? entry.values[expr.value - 1] ?? null : evaluate(expr, entry.scope);
+    const keyed = output.map((entry) => ({ entry, keys: statement.orderBy.map(({ expr }) => keyOf(expr, entry)) }));
+    keyed.sort((a, b) => {
+      for (let i = 0; i < statement.orderBy.length; i++) {
+        const [x, y] = [a.keys[i], b.keys[i]];
+        // NULLs sort first, as in SQLite
+        const order = x === null || y === null ? Number(y === null) - Number(x === null) : compare(x, y);
+        if (order !== 0) return statement.orderBy[i].descending ? -order : order;
+      }
+      return 0;
+    });
+    output = keyed.map(({ entry }) => entry);
+  }
+
+  if (statement.distinct) {
+    const seen = new Map<string, (typeof output)[number]>();
+    for (const entry of output) {
+      const key = JSON.stringify(entry.values);
+      const existing = seen.get(key);
+      if (existing) existing.objects = [...existing.objects, ...entry.objects];
+      else seen.set(key, { ...entry });
+    }
+    output = [...seen.values()];
+  }
+
+  if (statement.limit !== null) output = output.slice(0, statement.limit);
+
+  return {
+    columns,
+    rows: output.map(({ values }) => values),
+    objects: [...new Set(output.flatMap(({ objects }) => objects))],
+  };
+};
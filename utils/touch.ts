@@ -0,0 +1,45 @@
+export const COARSE_POINTER_QUERY = '(pointer: coarse)';
+// Below Tailwind's `sm` breakpoint the detail panel becomes a bottom sheet
+export const COMPACT_LAYOUT_QUERY = '(max-width: 639px)';
+// Share of the screen height the detail sheet covers in the compact layout
+export const DETAIL_SHEET_HEIGHT = 0.45;
+
+// Fingers are less precise than a mouse, so star systems take taps over a wider area
+export const TOUCH_HIT_SCALE = 1.6;
+
+// Degrees of device tilt that move the parallax camera to the edge of its range
+const TILT_RANGE = 30;
+// Phones are usually held tipped back by about this much, which counts as level
+const RESTING_PITCH = 45;
+
+export const orientationSupported = () => typeof window !== 'undefined' && 'DeviceOrientationEvent' in window;
+
+/**
+ * Asks for motion sensor access where the browser requires it (iOS Safari). Must run inside a user gesture.
+ */
+export const requestOrientationAccess = async () => {
+  const request = (DeviceOrientationEvent as unknown as { requestPermission?: () => Promise<PermissionState> }).requestPermission;
+  if (typeof request !== 'function') return true;
+  try {
+    return (await request()) === 'granted';
+  } catch {
+    return false;
+  }
+};
+
+const clampUnit = (value: number) => Math.max(-1, Math.min(1, value));
+
+/**
+ * Device tilt as a pointer-like position in [-1, 1], relative to how the screen is currently rotated
+ */
+export const tiltFromOrientation = ({ beta, gamma }: DeviceOrientationEvent) => {
+  if (beta === null || gamma === null) return null;
+  const angle = window.screen.orientation?.angle ?? 0;
+
+  // In landscape the axes swap: beta turns left/right and gamma tips towards or away from the viewer
+  const landscape = angle % 180 !== 0;
+  const x = landscape ? (angle === 90 ? beta : -beta) : gamma;
+  const y = (landscape ? Math.abs(gamma) : beta) - RESTING_PITCH;
+
+  return { x: clampUnit(x / TILT_RANGE), y: clampUnit(-y / TILT_RANGE) };
+};
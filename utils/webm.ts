@@ -0,0 +1,123 @@
+/**
+ * Minimal WebM (Matroska) muxer for one video track of WebCodecs chunks.
+ * Frames carry exact timestamps, so the clip plays at its nominal rate however long each frame took to render.
+ */
+
+// Codec strings for VideoEncoder, with the matching Matroska codec ids, in order of preference
+export const WEBM_CODECS = [
+  { encoder: 'vp09.00.10.08', matroska: 'V_VP9' },
+  { encoder: 'vp8', matroska: 'V_VP8' },
+];
+
+// Cluster timecodes are relative 16-bit offsets, so start a new cluster well before they overflow
+const MAX_CLUSTER_MS = 30000;
+
+const concat = (parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+// Big-endian unsigned integer in the fewest bytes
+const uint = (value: number) => {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return new Uint8Array(bytes);
+};
+
+// EBML variable-length size: the position of the leading 1 bit encodes the byte count
+const vint = (value: number) => {
+  let length = 1;
+  while (value >= 2 ** (7 * length) - 1) length++;
+  return uint(value + 2 ** (7 * length));
+};
+
+const float64 = (value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+};
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+// Element ids already include their length marker, so they are written as plain bytes
+const element = (id: number, payload: Uint8Array) => concat([uint(id), vint(payload.length), payload]);
+const master = (id: number, children: Uint8Array[]) => element(id, concat(children));
+
+interface WebmWriterOptions {
+  codec: string;   // Matroska codec id, e.g. V_VP9
+  width: number;
+  height: number;
+}
+
+export const createWebmWriter = ({ codec, width, height }: WebmWriterOptions) => {
+  const clusters: Uint8Array[] = [];
+  let cluster: { start: number; blocks: Uint8Array[] } | null = null;
+  let duration = 0;
+
+  const closeCluster = () => {
+    if (!cluster) return;
+    clusters.push(master(0x1f43b675, [element(0xe7, uint(cluster.start)), ...cluster.blocks]));
+    cluster = null;
+  };
+
+  return {
+    /**
+     * Appends one encoded frame; `timestamp` and `frameDuration` are in milliseconds
+     */
+    addFrame: (data: Uint8Array, timestamp: number, frameDuration: number, keyFrame: boolean) => {
+      const time = Math.round(timestamp);
+      // Players can only seek to the start of a cluster, so each keyframe opens one
+      if (!cluster || keyFrame || time - cluster.start > MAX_CLUSTER_MS) {
+        closeCluster();
+        cluster = { start: time, blocks: [] };
+      }
+
+      const header = new Uint8Array(4);
+      header[0] = 0x81; // Track number 1 as a one-byte vint
+      new DataView(header.buffer).setInt16(1, time - cluster.start);
+      header[3] = keyFrame ? 0x80 : 0;
+      cluster.blocks.push(element(0xa3, concat([header, data])));
+      duration = Math.max(duration, timestamp + frameDuration);
+    },
+
+    finish: () => {
+      closeCluster();
+
+      const header = master(0x1a45dfa3, [
+        element(0x4286, uint(1)),        // EBMLVersion
+        element(0x42f7, uint(1)),        // EBMLReadVersion
+        element(0x42f2, uint(4)),        // EBMLMaxIDLength
+        element(0x42f3, uint(8)),        // EBMLMaxSizeLength
+        element(0x4282, text('webm')),   // DocType
+        element(0x4287, uint(2)),        // DocTypeVersion
+        element(0x4285, uint(2)),        // DocTypeReadVersion
+      ]);
+      const info = master(0x1549a966, [
+        element(0x2ad7b1, uint(1000000)), // TimecodeScale: milliseconds
+        element(0x4d80, text('cosmos')),  // MuxingApp
+        element(0x5741, text('cosmos')),  // WritingApp
+        element(0x4489, float64(duration)),
+      ]);
+      const tracks = master(0x1654ae6b, [
+        master(0xae, [
+          element(0xd7, uint(1)),         // TrackNumber
+          element(0x73c5, uint(1)),       // TrackUID
+          element(0x9c, uint(0)),         // FlagLacing
+          element(0x86, text(codec)),
+          element(0x83, uint(1)),         // TrackType: video
+          master(0xe0, [element(0xb0, uint(width)), element(0xba, uint(height))]),
+        ]),
+      ]);
+
+      return new Blob([header, master(0x18538067, [info, tracks, ...clusters])], { type: 'video/webm' });
+    },
+  };
+};
@@ -0,0 +1,91 @@
+import { STAR_SYSTEMS } from '../data/starSystems';
+import { generatePlanets } from './kepler';
+import { SqlDatabase } from './sql';
+
+// Examples offered under the console editor; labels are the `sql.example.<id>` messages
+export const SAMPLE_QUERIES = [
+  {
+    id: 'eccentric',
+    sql: 'SELECT name, eccentricity, period\nFROM planets\nWHERE eccentricity > 0.1\nORDER BY eccentricity DESC',
+  },
+  {
+    id: 'census',
+    sql: 'SELECT s.name, COUNT(p.id) AS planets\nFROM systems s\nLEFT JOIN planets p ON p.system_id = s.id\nGROUP BY s.name',
+  },
+  {
+    id: 'outer',
+    sql: 'SELECT name, semi_major_axis\nFROM planets\nORDER BY semi_major_axis DESC\nLIMIT 3',
+  },
+  {
+    id: 'ringed',
+    sql: 'SELECT *\nFROM systems\nWHERE rings >= 2\nORDER BY rings DESC',
+  },
+] as const;
+
+export const DEFAULT_QUERY = SAMPLE_QUERIES[0].sql;
+
+// Readable precision for the orbital elements
+const round = (value: number, digits = 3) => Number(value.toFixed(digits));
+
+/**
+ * The console's sample dataset: the scene's own star systems and, for `seed`, their planets.
+ * Rows name their scene object by id, so results can be highlighted in 3D.
+ */
+export const createSampleDatabase = (seed: number): SqlDatabase => ({
+  systems: {
+    columns: ['id', 'name', 'arm', 'radius', 'color', 'rings', 'planets', 'particles'],
+    objectColumn: 'id',
+    rows: STAR_SYSTEMS.map((system) => ({
+      id: system.id,
+      name: `${system.label.title}${system.label.highlight}`,
+      arm: system.arm,
+      radius: system.radius,
+      color: system.palette.star,
+      rings: system.rings.length,
+      planets: system.planets?.count ?? 0,
+      particles: system.cloud?.count ?? 0,
+    })),
+  },
+  planets: {
+    columns: ['id', 'name', 'system_id', 'semi_major_axis', 'eccentricity', 'inclination', 'period', 'size', 'color'],
+    objectColumn: 'id',
+    rows: STAR_SYSTEMS.flatMap((system) =>
+      generatePlanets(system, seed).map(({ id, name, orbit, size, color }) => ({
+        id,
+        name,
+        system_id: system.id,
+        semi_major_axis: round(orbit.semiMajorAxis),
+        eccentricity: round(orbit.eccentricity),
+        inclination: round((orbit.inclination * 180) / Math.PI, 1),
+        period: round(orbit.period, 2),
+        size: round(size, 4),
+        color,
+      }))
+    ),
+  },
+});
+
+const HISTORY_KEY = 'cosmos.sqlHistory';
+const HISTORY_LENGTH = 20;
+
+export const loadQueryHistory = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HISTORY_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((entry): entry is string => typeof entry === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Puts `query` at the top of the history, dropping an older copy of it, and returns the new history
+ */
+export const pushQueryHistory = (query: string): string[] => {
+  const history = [query, ...loadQueryHistory().filter((entry) => entry !== query)].slice(0, HISTORY_LENGTH);
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  } catch {
+    // Storage unavailable
+  }
+  return history;
+};
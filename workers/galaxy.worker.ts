@@ -0,0 +1,39 @@
+import { generateCloudData, generateGalaxyData, generateNebulaData } from '../utils/galaxy';
+import { createRandom } from '../utils/random';
+import { BufferJob, CloudBuffers, GalaxyBuffers, NebulaBuffers } from '../types';
+
+/**
+ * Generates particle buffers off the main thread.
+ * Jobs run one at a time in arrival order; finished Float32Arrays are transferred, not copied.
+ */
+export interface BufferRequest {
+  id: number;
+  job: BufferJob;
+}
+
+export type BufferResponse =
+  | { id: number; type: 'progress'; generated: number }
+  | { id: number; type: 'done'; buffers: GalaxyBuffers | CloudBuffers | NebulaBuffers }
+  | { id: number; type: 'error'; message: string };
+
+const respond = (response: BufferResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+const generate = (job: BufferJob, onProgress: (generated: number) => void) => {
+  // Nebulae draw from one stream per cloud, derived from the job's
+  if (job.kind === 'nebula') return generateNebulaData(job.params, job.layers, job.seed, job.stream, onProgress);
+  const random = createRandom(job.seed, job.stream);
+  return job.kind === 'galaxy'
+    ? generateGalaxyData(job.count, job.params, random, onProgress)
+    : generateCloudData(job.cloud, job.count, random, onProgress);
+};
+
+self.onmessage = ({ data: { id, job } }: MessageEvent<BufferRequest>) => {
+  try {
+    const buffers = generate(job, (generated) => respond({ id, type: 'progress', generated }));
+    respond({ id, type: 'done', buffers }, Object.values(buffers).map((array: Float32Array) => array.buffer));
+  } catch (err) {
+    respond({ id, type: 'error', message: err instanceof Error ? err.message : 'Buffer generation failed' });
+  }
+};